@@ -2,8 +2,7 @@ import { useState, useRef, useEffect } from 'react'
 import './App.css'
 import { Button } from '@/components/ui/button'
 import { TooltipProvider } from '@/components/ui/tooltip'
-import { isGB7File } from '@/lib/utils'
-import { parseGB7File } from '@/lib/parseGB7'
+import { loadImageFile, isSupportedImageFile, IMAGE_FILE_ACCEPT, SUPPORTED_FORMATS_LABEL } from '@/lib/imageLoader'
 import { LayeredCanvas } from '@/components/LayeredCanvas'
 import { ImageInfo } from '@/components/ImageInfo'
 import { EditorProvider } from '@/context/EditorContext'
@@ -14,10 +13,10 @@ import { ResizeHandler } from '@/components/ResizeHandler'
 import { CurvesHandler } from '@/components/CurvesHandler'
 import { FilterHandler } from '@/components/FilterHandler'
 import { ExportHandler } from '@/components/ExportHandler'
+import { ProjectHandler } from '@/components/ProjectHandler'
+import { BatchHandler } from '@/components/BatchHandler'
 import { useEditor } from '@/context/EditorContext'
-
-const SUPPORTED_FORMATS = ['image/png', 'image/jpeg', 'image/jpg']
-const CUSTOM_FORMAT_EXTENSION = '.gb7'
+import { getCenteredOffset } from '@/lib/layerGeometry'
 
 function AppContent() {
   const [error, setError] = useState<string | null>(null)
@@ -25,72 +24,108 @@ function AppContent() {
   const [resizeModalOpen, setResizeModalOpen] = useState(false)
   const [curvesModalOpen, setCurvesModalOpen] = useState(false)
   const [filterModalOpen, setFilterModalOpen] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
   
   const fileInputRef = useRef<HTMLInputElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   
   // Получаем информацию о слоях и активный инструмент
-  const { layers, addLayer, activeTool, setActiveTool } = useEditor()
+  const { layers, documentSize, addLayer, replaceLayers, activeTool, setActiveTool, setDocumentProperties } = useEditor()
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files
+  // Открывает файлы по очереди: первый начинает документ, если его нет, остальные добавляются слоями
+  const openFiles = async (files: File[]) => {
     setError(null)
 
-    if (!files || files.length === 0) {
-      return
-    }
+    const failures: string[] = []
+    const warnings: string[] = []
+    // Состояние контекста обновится только после рендера, поэтому документ отслеживается локально
+    let layerCount = layers.length
+    let baseSize = documentSize
 
-    const file = files[0]
-    
-    const isGB7Format = isGB7File(file)
-    const isSupportedFormat = SUPPORTED_FORMATS.includes(file.type)
-    
-    if (!isSupportedFormat && !isGB7Format) {
-      setError(`Неподдерживаемый формат файла. Пожалуйста, загрузите PNG, JPG или ${CUSTOM_FORMAT_EXTENSION} файлы.`)
-      return
-    }
+    for (const file of files) {
+      if (!isSupportedImageFile(file)) {
+        failures.push(`${file.name}: неподдерживаемый формат (ожидается ${SUPPORTED_FORMATS_LABEL})`)
+        continue
+      }
 
-    // Создаем слой напрямую через addLayer
-    const createLayerFromImage = (url: string) => {
-      const img = new Image()
-      img.onload = () => {
-        const canvas = document.createElement('canvas')
-        canvas.width = img.width
-        canvas.height = img.height
-        const ctx = canvas.getContext('2d')
-        
-        if (ctx) {
-          ctx.drawImage(img, 0, 0)
-          const imageData = ctx.getImageData(0, 0, img.width, img.height)
-          
-          addLayer({
-            name: layers.length === 0 ? 'Фон' : `Слой ${layers.length + 1}`,
-            visible: true,
-            opacity: 100,
-            blendMode: 'normal',
-            imageData,
-            imageUrl: url,
-            isBackground: layers.length === 0
-          })
+      try {
+        const { imageData, url, properties, layers: fileLayers, warning } = await loadImageFile(file)
+        if (warning) {
+          warnings.push(`${file.name}: ${warning}`)
         }
+
+        if (layerCount === 0) {
+          // Первый файл начинает новый документ со свойствами из файла
+          setDocumentProperties(properties)
+          baseSize = { width: imageData.width, height: imageData.height }
+
+          // Многослойный файл открывается со всем стеком слоев
+          if (fileLayers.length > 0) {
+            replaceLayers(fileLayers, baseSize)
+            layerCount = fileLayers.length
+            continue
+          }
+        }
+
+        // Остальные файлы добавляются слоями по центру документа (многослойные — сведённым изображением)
+        addLayer({
+          name: layerCount === 0 ? 'Фон' : `Слой ${layerCount + 1}`,
+          visible: true,
+          opacity: 100,
+          blendMode: 'normal',
+          imageData,
+          imageUrl: url,
+          isBackground: layerCount === 0,
+          ...(baseSize ? getCenteredOffset(imageData.width, imageData.height, baseSize) : {})
+        })
+        layerCount++
+      } catch (err) {
+        console.error('Ошибка при открытии файла:', err)
+        const reason = err instanceof Error ? err.message : 'файл повреждён или не может быть прочитан'
+        failures.push(`${file.name}: ${reason}`)
       }
-      img.onerror = () => setError('Не удалось загрузить изображение')
-      img.src = url
     }
 
-    if (isGB7Format) {
-      parseGB7File(file)
-        .then(({ url }) => createLayerFromImage(url))
-        .catch(err => {
-          console.error('Ошибка при обработке GB7 файла:', err)
-          setError(`Не удалось обработать ${CUSTOM_FORMAT_EXTENSION} файл: ${err.message}`)
-        })
-    } else {
-      const fileUrl = URL.createObjectURL(file)
-      createLayerFromImage(fileUrl)
+    // Файлы, открытые не полностью, показываются вместе с ошибками открытия
+    const messages = [
+      ...(failures.length > 0 ? [`Не удалось открыть:\n${failures.join('\n')}`] : []),
+      ...(warnings.length > 0 ? [`Открыто с ограничениями:\n${warnings.join('\n')}`] : [])
+    ]
+    if (messages.length > 0) {
+      setError(messages.join('\n'))
     }
   }
 
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Сбрасываем значение, чтобы повторный выбор того же файла снова вызвал onChange
+    event.target.value = ''
+    openFiles(files)
+  }
+
+  const hasDraggedFiles = (event: React.DragEvent) => event.dataTransfer.types.includes('Files')
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>) => {
+    if (!hasDraggedFiles(event)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (event: React.DragEvent<HTMLElement>) => {
+    // Переход курсора на дочерний элемент тоже вызывает dragleave
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>) => {
+    if (!hasDraggedFiles(event)) return
+    event.preventDefault()
+    setIsDragging(false)
+    openFiles(Array.from(event.dataTransfer.files))
+  }
+
   const handleUploadClick = () => {
     if (fileInputRef.current) {
       fileInputRef.current.click()
@@ -137,6 +172,12 @@ function AppContent() {
                 Загрузить изображение
               </Button>
               
+              <ProjectHandler
+                zoomLevel={zoomLevel}
+                onZoomChange={handleZoomChange}
+                onError={setError}
+              />
+              
               <Button
                 onClick={() => setResizeModalOpen(true)}
                 variant="outline"
@@ -146,13 +187,16 @@ function AppContent() {
               </Button>
               
               <ExportHandler onError={setError} />
+
+              <BatchHandler onError={setError} />
             </div>
             
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileSelect}
-              accept={`.png,.jpg,.jpeg,${CUSTOM_FORMAT_EXTENSION}`}
+              accept={IMAGE_FILE_ACCEPT}
+              multiple
               className="hidden"
             />
           </header>
@@ -160,12 +204,21 @@ function AppContent() {
           <main
             ref={containerRef}
             className="flex-1 flex flex-col items-center justify-center overflow-hidden relative min-h-0"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
           >
             {error && (
-              <div className="text-destructive mb-4 absolute top-4 z-10">
+              <div className="text-destructive mb-4 absolute top-4 z-10 whitespace-pre-line">
                 {error}
               </div>
             )}
+
+            {isDragging && (
+              <div className="absolute inset-2 z-20 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 pointer-events-none">
+                <span className="text-lg font-medium">Отпустите файлы, чтобы открыть их</span>
+              </div>
+            )}
             
             <LayeredCanvas
               zoomLevel={zoomLevel}
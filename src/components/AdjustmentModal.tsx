@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ADJUSTMENT_LABELS, createDefaultAdjustment, type Adjustment } from '@/lib/adjustments';
+
+interface AdjustmentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Параметры корректирующего слоя на момент открытия
+  adjustment: Adjustment | null;
+  onApply: (adjustment: Adjustment) => void;
+  // Вызывается при каждом изменении параметров, пока включен предпросмотр
+  onPreview: (adjustment: Adjustment) => void;
+}
+
+interface ParameterSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+function ParameterSlider({ id, label, value, min, max, step = 1, onChange }: ParameterSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>{label}</Label>
+        <span className="text-xs text-muted-foreground">{value}</span>
+      </div>
+      <Slider
+        id={id}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+// Ошибка в параметрах коррекции или null
+function validateAdjustment(adjustment: Adjustment): string | null {
+  if (adjustment.type === 'curves' && adjustment.point1.input >= adjustment.point2.input) {
+    return 'Вход первой точки должен быть меньше входа второй';
+  }
+  if (adjustment.type === 'levels' && adjustment.inputBlack >= adjustment.inputWhite) {
+    return 'Уровень теней должен быть меньше уровня светов';
+  }
+  return null;
+}
+
+export function AdjustmentModal({ open, onOpenChange, adjustment, onApply, onPreview }: AdjustmentModalProps) {
+  const [draft, setDraft] = useState<Adjustment | null>(adjustment);
+  const [previewEnabled, setPreviewEnabled] = useState(false);
+
+  // Сбрасываем параметры при открытии
+  useEffect(() => {
+    if (open) {
+      setDraft(adjustment);
+      setPreviewEnabled(false);
+    }
+  }, [open, adjustment]);
+
+  const error = draft ? validateAdjustment(draft) : null;
+
+  const updateDraft = (next: Adjustment) => {
+    setDraft(next);
+    if (previewEnabled && !validateAdjustment(next)) {
+      onPreview(next);
+    }
+  };
+
+  const handlePreviewChange = (checked: boolean) => {
+    setPreviewEnabled(checked);
+    // Без предпросмотра слой показывает исходные параметры
+    const shown = checked ? draft : adjustment;
+    if (shown && !validateAdjustment(shown)) {
+      onPreview(shown);
+    }
+  };
+
+  const handleApply = () => {
+    if (draft && !error) {
+      onApply(draft);
+    }
+  };
+
+  const renderParameters = (current: Adjustment) => {
+    switch (current.type) {
+      case 'curves': {
+        const fields = [
+          { label: 'Вход 1', value: current.point1.input, update: (value: number) => ({ ...current, point1: { ...current.point1, input: value } }) },
+          { label: 'Выход 1', value: current.point1.output, update: (value: number) => ({ ...current, point1: { ...current.point1, output: value } }) },
+          { label: 'Вход 2', value: current.point2.input, update: (value: number) => ({ ...current, point2: { ...current.point2, input: value } }) },
+          { label: 'Выход 2', value: current.point2.output, update: (value: number) => ({ ...current, point2: { ...current.point2, output: value } }) }
+        ];
+        return (
+          <div className="grid grid-cols-4 gap-2">
+            {fields.map(({ label, value, update }, i) => (
+              <div key={label} className="space-y-1">
+                <Label htmlFor={`adjustment-curve-${i}`}>{label}</Label>
+                <Input
+                  id={`adjustment-curve-${i}`}
+                  type="number"
+                  min={0}
+                  max={255}
+                  value={value}
+                  onChange={(e) => updateDraft(update(Math.max(0, Math.min(255, Number(e.target.value) || 0))))}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      }
+      case 'levels':
+        return (
+          <>
+            <ParameterSlider id="levels-input-black" label="Тени на входе" value={current.inputBlack} min={0} max={255}
+              onChange={(value) => updateDraft({ ...current, inputBlack: value })} />
+            <ParameterSlider id="levels-gamma" label="Гамма средних тонов" value={current.gamma} min={0.1} max={9.99} step={0.01}
+              onChange={(value) => updateDraft({ ...current, gamma: value })} />
+            <ParameterSlider id="levels-input-white" label="Света на входе" value={current.inputWhite} min={0} max={255}
+              onChange={(value) => updateDraft({ ...current, inputWhite: value })} />
+            <ParameterSlider id="levels-output-black" label="Тени на выходе" value={current.outputBlack} min={0} max={255}
+              onChange={(value) => updateDraft({ ...current, outputBlack: value })} />
+            <ParameterSlider id="levels-output-white" label="Света на выходе" value={current.outputWhite} min={0} max={255}
+              onChange={(value) => updateDraft({ ...current, outputWhite: value })} />
+          </>
+        );
+      case 'hueSaturation':
+        return (
+          <>
+            <ParameterSlider id="hue" label="Цветовой тон, °" value={current.hue} min={-180} max={180}
+              onChange={(value) => updateDraft({ ...current, hue: value })} />
+            <ParameterSlider id="saturation" label="Насыщенность, %" value={current.saturation} min={-100} max={100}
+              onChange={(value) => updateDraft({ ...current, saturation: value })} />
+            <ParameterSlider id="lightness" label="Яркость, %" value={current.lightness} min={-100} max={100}
+              onChange={(value) => updateDraft({ ...current, lightness: value })} />
+          </>
+        );
+      case 'invert':
+        return <p className="text-sm text-muted-foreground">Инверсия не имеет параметров.</p>;
+      case 'threshold':
+        return (
+          <ParameterSlider id="threshold-level" label="Порог яркости" value={current.level} min={0} max={255}
+            onChange={(value) => updateDraft({ ...current, level: value })} />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            Корректирующий слой{draft ? ` - ${ADJUSTMENT_LABELS[draft.type]}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        {draft && (
+          <div className="grid gap-4 py-4">
+            {renderParameters(draft)}
+            {error && <p className="text-destructive text-xs">{error}</p>}
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="adjustment-preview"
+                checked={previewEnabled}
+                onCheckedChange={(checked) => handlePreviewChange(checked as boolean)}
+              />
+              <Label htmlFor="adjustment-preview">Предпросмотр</Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => draft && updateDraft(createDefaultAdjustment(draft.type))}>
+            Сброс
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button onClick={handleApply} disabled={!draft || !!error}>
+            Применить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
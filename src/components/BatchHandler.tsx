@@ -0,0 +1,412 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+import { IMAGE_FILE_ACCEPT } from '@/lib/imageLoader';
+import { FILTER_PRESETS } from '@/lib/filters';
+import { interpolationInfo } from '@/lib/interpolation';
+import { LOSSY_EXPORT_FORMATS, type ExportFormat } from '@/lib/exportImage';
+import { downloadBlob } from '@/lib/utils';
+import {
+  BATCH_RECIPE_EXTENSION,
+  BATCH_STEP_LABELS,
+  describeBatchStep,
+  parseBatchRecipe,
+  runBatch,
+  serializeBatchRecipe,
+  type BatchFailure,
+  type BatchStep,
+  type BatchStepType
+} from '@/lib/batch';
+
+// Форматы результата пакетной обработки
+const BATCH_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpg', label: 'JPEG' },
+  { value: 'gif', label: 'GIF' },
+  { value: 'tiff', label: 'TIFF' },
+  { value: 'bmp', label: 'BMP' },
+  { value: 'gb7', label: 'GB7' }
+];
+
+const MEDIAN_SIZES = [3, 5, 7];
+
+interface BatchHandlerProps {
+  onError: (error: string) => void;
+}
+
+export function BatchHandler({ onError }: BatchHandlerProps) {
+  const [open, setOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [steps, setSteps] = useState<BatchStep[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState([90]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<BatchFailure[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // Параметры нового шага
+  const [stepType, setStepType] = useState<BatchStepType>('resize');
+  const [resizeWidth, setResizeWidth] = useState(1024);
+  const [resizeHeight, setResizeHeight] = useState(1024);
+  const [keepAspectRatio, setKeepAspectRatio] = useState(true);
+  const [resizeMethod, setResizeMethod] = useState<'nearest' | 'bilinear'>('bilinear');
+  const [curvesPoints, setCurvesPoints] = useState([0, 0, 255, 255]);
+  const [kernelPreset, setKernelPreset] = useState(FILTER_PRESETS[1].name);
+  const [sigma, setSigma] = useState([1]);
+  const [medianSize, setMedianSize] = useState(3);
+
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const isRunning = progress !== null && progress.completed < progress.total;
+
+  const createStep = (): BatchStep => {
+    switch (stepType) {
+      case 'resize':
+        return { type: 'resize', width: resizeWidth, height: resizeHeight, keepAspectRatio, method: resizeMethod };
+      case 'curves':
+        return {
+          type: 'curves',
+          point1: { input: curvesPoints[0], output: curvesPoints[1] },
+          point2: { input: curvesPoints[2], output: curvesPoints[3] }
+        };
+      case 'kernel': {
+        const preset = FILTER_PRESETS.find(item => item.name === kernelPreset) ?? FILTER_PRESETS[0];
+        return { type: 'kernel', name: preset.name, kernel: preset.kernel };
+      }
+      case 'gaussian':
+        return { type: 'gaussian', sigma: sigma[0] };
+      case 'median':
+        return { type: 'median', kernelSize: medianSize };
+    }
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleFilesSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+    setFailures([]);
+    setSummary(null);
+    setProgress(null);
+  };
+
+  const handleSaveRecipe = () => {
+    const json = serializeBatchRecipe({ steps, format, quality: quality[0] / 100 });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `recipe${BATCH_RECIPE_EXTENSION}`);
+  };
+
+  const handleLoadRecipe = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recipe = parseBatchRecipe(await file.text());
+      setSteps(recipe.steps);
+      setFormat(recipe.format);
+      if (recipe.quality !== undefined) setQuality([Math.round(recipe.quality * 100)]);
+    } catch (error) {
+      onError(`Не удалось открыть рецепт ${file.name}: ${error instanceof Error ? error.message : 'неизвестная ошибка'}`);
+    }
+  };
+
+  const handleRun = async () => {
+    setFailures([]);
+    setSummary(null);
+    setProgress({ completed: 0, total: files.length });
+
+    try {
+      const result = await runBatch(
+        files,
+        { steps, format, quality: quality[0] / 100 },
+        (completed, total) => setProgress({ completed, total })
+      );
+
+      setFailures(result.failures);
+      setSummary(`Обработано файлов: ${result.processed} из ${files.length}`);
+
+      if (result.archive) {
+        downloadBlob(new Blob([result.archive], { type: 'application/zip' }), 'batch.zip');
+      }
+    } catch (error) {
+      setProgress(null);
+      onError(error instanceof Error ? error.message : 'Ошибка пакетной обработки');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isRunning && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Пакетная обработка</Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Пакетная обработка</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Исходные файлы */}
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">
+              {files.length > 0 ? `Выбрано файлов: ${files.length}` : 'Файлы не выбраны'}
+            </span>
+            <Button variant="secondary" onClick={() => filesInputRef.current?.click()} disabled={isRunning}>
+              Выбрать файлы
+            </Button>
+          </div>
+
+          {/* Шаги рецепта */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Рецепт</Label>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => recipeInputRef.current?.click()} disabled={isRunning}>
+                  Открыть
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleSaveRecipe}>
+                  Сохранить
+                </Button>
+              </div>
+            </div>
+
+            {steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Рецепт пуст — изображения будут только преобразованы в выбранный формат.
+              </p>
+            ) : (
+              <ol className="space-y-1">
+                {steps.map((step, index) => (
+                  <li key={index} className="flex items-center gap-2 text-sm border rounded-md px-2 py-1">
+                    <span className="flex-1">{index + 1}. {describeBatchStep(step)}</span>
+                    <Button size="sm" variant="ghost" onClick={() => moveStep(index, -1)} disabled={isRunning || index === 0}>
+                      <ArrowUp className="w-3 h-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => moveStep(index, 1)} disabled={isRunning || index === steps.length - 1}>
+                      <ArrowDown className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isRunning}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Новый шаг */}
+          <div className="space-y-3 p-3 border rounded-md">
+            <div className="space-y-2">
+              <Label>Операция</Label>
+              <Select value={stepType} onValueChange={(value: BatchStepType) => setStepType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BATCH_STEP_LABELS) as BatchStepType[]).map(type => (
+                    <SelectItem key={type} value={type}>{BATCH_STEP_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {stepType === 'resize' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="batch-width">Ширина</Label>
+                    <Input
+                      id="batch-width"
+                      type="number"
+                      min={1}
+                      value={resizeWidth}
+                      onChange={(e) => setResizeWidth(Math.max(1, Number(e.target.value) || 1))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="batch-height">Высота</Label>
+                    <Input
+                      id="batch-height"
+                      type="number"
+                      min={1}
+                      value={resizeHeight}
+                      onChange={(e) => setResizeHeight(Math.max(1, Number(e.target.value) || 1))}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="batch-aspect"
+                    checked={keepAspectRatio}
+                    onCheckedChange={(checked) => setKeepAspectRatio(checked as boolean)}
+                  />
+                  <Label htmlFor="batch-aspect">Вписать с сохранением пропорций</Label>
+                </div>
+                <Select value={resizeMethod} onValueChange={(value: 'nearest' | 'bilinear') => setResizeMethod(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="nearest">{interpolationInfo.nearest.name}</SelectItem>
+                    <SelectItem value="bilinear">{interpolationInfo.bilinear.name}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {stepType === 'curves' && (
+              <div className="grid grid-cols-4 gap-2">
+                {['Вход 1', 'Выход 1', 'Вход 2', 'Выход 2'].map((label, i) => (
+                  <div key={label} className="space-y-1">
+                    <Label htmlFor={`batch-curve-${i}`}>{label}</Label>
+                    <Input
+                      id={`batch-curve-${i}`}
+                      type="number"
+                      min={0}
+                      max={255}
+                      value={curvesPoints[i]}
+                      onChange={(e) => {
+                        const value = Math.max(0, Math.min(255, Number(e.target.value) || 0));
+                        setCurvesPoints(prev => prev.map((point, j) => (j === i ? value : point)));
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {stepType === 'kernel' && (
+              <Select value={kernelPreset} onValueChange={setKernelPreset}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FILTER_PRESETS.map(preset => (
+                    <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {stepType === 'gaussian' && (
+              <div className="space-y-2">
+                <Label>Сила размытия: {sigma[0].toFixed(1)}</Label>
+                <Slider value={sigma} onValueChange={setSigma} min={0.1} max={10} step={0.1} className="w-full" />
+              </div>
+            )}
+
+            {stepType === 'median' && (
+              <Select value={String(medianSize)} onValueChange={(value) => setMedianSize(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEDIAN_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size}×{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button variant="outline" className="w-full" onClick={() => setSteps(prev => [...prev, createStep()])} disabled={isRunning}>
+              Добавить шаг
+            </Button>
+          </div>
+
+          {/* Формат результата */}
+          <div className="space-y-2">
+            <Label>Формат результата</Label>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BATCH_FORMATS.map(item => (
+                  <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {LOSSY_EXPORT_FORMATS.includes(format) && (
+            <div className="space-y-2">
+              <Label>Качество: {quality[0]}%</Label>
+              <Slider value={quality} onValueChange={setQuality} min={10} max={100} step={5} className="w-full" />
+            </div>
+          )}
+
+          {/* Прогресс и результаты */}
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-2 bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {summary ?? `Обработано ${progress.completed} из ${progress.total}`}
+              </p>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="text-sm text-destructive space-y-1">
+              <p>Не удалось обработать:</p>
+              <ul className="list-disc pl-5 max-h-32 overflow-y-auto">
+                {failures.map((failure, i) => (
+                  <li key={i}>{failure.name}: {failure.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Кнопки */}
+          <div className="flex justify-between pt-4">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isRunning}>
+              Закрыть
+            </Button>
+            <Button onClick={handleRun} disabled={isRunning || files.length === 0}>
+              {isRunning ? 'Обработка…' : 'Обработать и скачать'}
+            </Button>
+          </div>
+        </div>
+
+        <input
+          type="file"
+          ref={filesInputRef}
+          onChange={handleFilesSelect}
+          accept={IMAGE_FILE_ACCEPT}
+          multiple
+          className="hidden"
+        />
+        <input
+          type="file"
+          ref={recipeInputRef}
+          onChange={handleLoadRecipe}
+          accept={`${BATCH_RECIPE_EXTENSION},application/json`}
+          className="hidden"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,53 +1,284 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useEditor } from '@/context/EditorContext';
-import { downloadImage, getImageDataForExport } from '@/lib/encodeGB7';
+import { ExportPreview } from '@/components/ExportPreview';
+import { encodeGB7, type GB7EncodeOptions, type GB7LayerInput } from '@/lib/encodeGB7';
+import {
+  downloadImage,
+  encodeImage,
+  EXPORT_EXTENSIONS,
+  isCanvasFormatSupported,
+  LOSSY_EXPORT_FORMATS,
+  type CanvasExportFormat,
+  type ExportFormat,
+  type ExportOptions
+} from '@/lib/exportImage';
+import { decodeGB7 } from '@/lib/parseGB7';
+import { DITHER_METHOD_INFO, type DitherMethod } from '@/lib/dither';
+import type { GB7Compression } from '@/lib/gb7Format';
+import type { BMPBitDepth } from '@/lib/bmp';
+import type { TIFFColorMode, TIFFCompression } from '@/lib/tiff';
+import {
+  createPalette,
+  indexedToRGBA,
+  quantizeImage,
+  QUANTIZE_METHOD_INFO,
+  type QuantizeMethod,
+  type QuantizeOptions
+} from '@/lib/quantize';
+import { formatFileSize, sanitizeFilename } from '@/lib/utils';
+import { ICO_SIZES } from '@/lib/ico';
+import { PNG_TEXT_KEYWORDS } from '@/lib/pngChunks';
+import { blendLayers, flattenLayerGroups } from '@/lib/blendModes';
+import { interpolationInfo } from '@/lib/interpolation';
+
+const PREVIEW_SIZE = 256;
+// Пауза после изменения параметров перед оценкой размера файла
+const SIZE_ESTIMATE_DELAY = 400;
+// Форматы, поддержка которых зависит от браузера
+const OPTIONAL_CANVAS_FORMATS: CanvasExportFormat[] = ['webp', 'avif'];
+
+// Вырезает центральный фрагмент изображения для предпросмотра в масштабе 1:1
+function cropCenter(imageData: ImageData, size: number): ImageData {
+  const width = Math.min(size, imageData.width);
+  const height = Math.min(size, imageData.height);
+  const left = Math.floor((imageData.width - width) / 2);
+  const top = Math.floor((imageData.height - height) / 2);
+  const result = new ImageData(width, height);
+
+  for (let y = 0; y < height; y++) {
+    const srcStart = ((top + y) * imageData.width + left) * 4;
+    result.data.set(imageData.data.subarray(srcStart, srcStart + width * 4), y * width * 4);
+  }
+
+  return result;
+}
 
 interface ExportHandlerProps {
   onError: (error: string) => void;
 }
 
 export function ExportHandler({ onError }: ExportHandlerProps) {
-  const { layers } = useEditor();
+  const { documentSize, layers, documentProperties, setDocumentProperties } = useEditor();
   const [open, setOpen] = useState(false);
-  const [format, setFormat] = useState<'png' | 'jpg' | 'gb7'>('png');
+  const [format, setFormat] = useState<ExportFormat>('png');
   const [filename, setFilename] = useState('image');
   const [quality, setQuality] = useState([90]);
+  const [gb7Compression, setGb7Compression] = useState<GB7Compression>('none');
+  const [grayDither, setGrayDither] = useState<DitherMethod>('none');
+  const [alphaDither, setAlphaDither] = useState<DitherMethod>('none');
+  const [alphaThreshold, setAlphaThreshold] = useState([128]);
+  const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [pngModifiedTime, setPngModifiedTime] = useState(false);
+  const [includeLayers, setIncludeLayers] = useState(true);
+  const [netpbmAscii, setNetpbmAscii] = useState(false);
+  const [bmpBitDepth, setBmpBitDepth] = useState<BMPBitDepth>(24);
+  const [tiffCompression, setTiffCompression] = useState<TIFFCompression>('lzw');
+  const [tiffColorMode, setTiffColorMode] = useState<TIFFColorMode>('rgba');
+  const [tiffBitDepth, setTiffBitDepth] = useState<8 | 16>(8);
+  const [gifMethod, setGifMethod] = useState<QuantizeMethod>('median-cut');
+  const [gifColors, setGifColors] = useState([256]);
+  const [gifDither, setGifDither] = useState<DitherMethod>('none');
+  const [gifTransparency, setGifTransparency] = useState(true);
+  const [icoSizes, setIcoSizes] = useState<number[]>([16, 32, 48, 256]);
+  const [icoMethod, setIcoMethod] = useState<'nearest' | 'bilinear'>('bilinear');
+  const [canvasFormats, setCanvasFormats] = useState<CanvasExportFormat[]>([]);
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const isLossy = LOSSY_EXPORT_FORMATS.includes(format);
+
+  // Проверяем, какие дополнительные форматы умеет кодировать браузер
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(OPTIONAL_CANVAS_FORMATS.map(isCanvasFormatSupported)).then(support => {
+      if (!cancelled) {
+        setCanvasFormats(OPTIONAL_CANVAS_FORMATS.filter((_, i) => support[i]));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const gb7Options: GB7EncodeOptions = useMemo(() => ({
+    compression: gb7Compression,
+    grayDither,
+    alphaDither,
+    alphaThreshold: alphaThreshold[0]
+  }), [gb7Compression, grayDither, alphaDither, alphaThreshold]);
+
+  const gifOptions: QuantizeOptions = useMemo(() => ({
+    method: gifMethod,
+    maxColors: gifColors[0],
+    dither: gifDither,
+    transparency: gifTransparency,
+    alphaThreshold: alphaThreshold[0]
+  }), [gifMethod, gifColors, gifDither, gifTransparency, alphaThreshold]);
 
-  const handleExport = () => {
+  // Композитное изображение размером с документ
+  const getCompositeImageData = useCallback((): ImageData | null => {
+    if (!documentSize) return null;
+    return blendLayers(layers, documentSize.width, documentSize.height);
+  }, [documentSize, layers]);
+
+  // Композит строится один раз за открытие диалога: его используют предпросмотр и оценка размера
+  const composite = useMemo(() => (open ? getCompositeImageData() : null), [open, getCompositeImageData]);
+
+  // Композит для предпросмотра квантования GB7 и GIF
+  const previewComposite = format === 'gb7' || format === 'gif' ? composite : null;
+
+  const previewSource = useMemo(
+    () => (previewComposite ? cropCenter(previewComposite, PREVIEW_SIZE) : null),
+    [previewComposite]
+  );
+
+  const previewImageData = useMemo(() => {
+    if (!previewComposite || !previewSource) return null;
+
+    try {
+      if (format === 'gif') {
+        // Палитра строится по всему изображению, как при экспорте
+        const indexed = quantizeImage(previewSource, gifOptions, createPalette(previewComposite, gifOptions));
+        return new ImageData(indexedToRGBA(indexed), indexed.width, indexed.height);
+      }
+
+      const encoded = encodeGB7(previewSource, gb7Options);
+      const { header, pixels } = decodeGB7(encoded);
+      return new ImageData(pixels, header.width, header.height);
+    } catch (error) {
+      console.error('Не удалось построить предпросмотр квантования:', error);
+      return null;
+    }
+  }, [previewComposite, previewSource, format, gb7Options, gifOptions]);
+
+  // Слои документа для PSD и многослойного GB7. Эти форматы не хранят группы:
+  // обычные группы сводятся в один слой, поэтому сведение выполняется только для них
+  const documentLayers = useMemo((): GB7LayerInput[] => {
+    const needsLayers = format === 'psd' || (format === 'gb7' && includeLayers);
+    if (!open || !needsLayers || !documentSize) return [];
+    return flattenLayerGroups(layers, documentSize.width, documentSize.height);
+  }, [open, format, includeLayers, documentSize, layers]);
+
+  // Параметры всех форматов без текстовых метаданных; кодировщик берёт только относящиеся к выбранному
+  const encodingOptions = useMemo((): ExportOptions => {
+    // В GB7 слои сохраняются отдельными кадрами, если их больше одного
+    const gb7Layers = documentLayers.length > 1 ? documentLayers : [];
+
+    return {
+      quality: quality[0] / 100,
+      // Разрешение записывается всегда, когда оно задано в документе
+      png: { dpi: Number(documentProperties.dpi) || undefined },
+      gb7: { ...gb7Options, layers: gb7Layers },
+      gif: gifOptions,
+      ico: { sizes: icoSizes, method: icoMethod },
+      netpbm: { ascii: netpbmAscii },
+      bmp: { bitsPerPixel: bmpBitDepth },
+      psd: { layers: documentLayers },
+      tiff: { compression: tiffCompression, colorMode: tiffColorMode, bitsPerSample: tiffBitDepth }
+    };
+  }, [
+    documentLayers, documentProperties.dpi, quality, gb7Options, gifOptions,
+    icoSizes, icoMethod, netpbmAscii, bmpBitDepth, tiffCompression, tiffColorMode, tiffBitDepth
+  ]);
+
+  // Параметры экспорта: к параметрам кодирования добавляются метаданные документа
+  const buildExportOptions = useCallback((): ExportOptions => {
+    // Свойства документа сохраняются в блоке метаданных GB7
+    const metadata = includeMetadata
+      ? {
+          title: filename,
+          created: new Date().toISOString(),
+          ...documentProperties
+        }
+      : {};
+
+    // Текстовые поля PNG: название, автор, описание и программа
+    const pngText: Record<string, string> = {};
+    if (includeMetadata) {
+      const textProperties: Record<string, string | undefined> = { ...documentProperties, title: documentProperties.title || filename };
+      for (const [key, keyword] of Object.entries(PNG_TEXT_KEYWORDS)) {
+        const value = textProperties[key];
+        if (value) pngText[keyword] = value;
+      }
+    }
+
+    return {
+      ...encodingOptions,
+      png: { ...encodingOptions.png, text: pngText, modified: pngModifiedTime ? new Date() : undefined },
+      gb7: { ...encodingOptions.gb7, metadata }
+    };
+  }, [encodingOptions, documentProperties, filename, includeMetadata, pngModifiedTime]);
+
+  // Оценка размера файла: кодируем изображение после паузы в изменениях параметров.
+  // Имя файла и текстовые метаданные почти не влияют на размер и не перезапускают оценку
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsEstimating(true);
+
+    const timer = window.setTimeout(async () => {
+      try {
+        const blob = composite ? await encodeImage(composite, format, encodingOptions) : null;
+        if (!cancelled) setEstimatedSize(blob ? blob.size : null);
+      } catch {
+        if (!cancelled) setEstimatedSize(null);
+      } finally {
+        if (!cancelled) setIsEstimating(false);
+      }
+    }, SIZE_ESTIMATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [open, composite, format, encodingOptions]);
+
+  // Разрешение хранится в свойствах документа и попадает в PNG и GB7
+  const handleDpiChange = (value: string) => {
+    const properties = { ...documentProperties };
+    if (value) {
+      properties.dpi = value;
+    } else {
+      delete properties.dpi;
+    }
+    setDocumentProperties(properties);
+  };
+
+  const handleExport = async () => {
     if (layers.length === 0) {
       onError('Нет слоев для экспорта');
       return;
     }
 
     try {
-      // Получаем размеры из первого слоя с данными
-      const firstLayerWithData = layers.find(layer => layer.imageData);
-      if (!firstLayerWithData || !firstLayerWithData.imageData) {
+      if (!layers.some(layer => layer.imageData)) {
         onError('Нет данных изображения для экспорта');
         return;
       }
 
-      const { width, height } = firstLayerWithData.imageData;
-
       // Получаем композитное изображение
-      const imageData = getImageDataForExport(layers, width, height);
+      const imageData = getCompositeImageData();
       if (!imageData) {
         onError('Не удалось создать композитное изображение');
         return;
       }
 
       // Определяем имя файла с расширением
-      const extension = format === 'jpg' ? '.jpg' : format === 'png' ? '.png' : '.gb7';
-      const fullFilename = filename.endsWith(extension) ? filename : filename + extension;
+      const extension = EXPORT_EXTENSIONS[format];
+      const name = sanitizeFilename(filename, 'image');
+      const fullFilename = name.endsWith(extension) ? name : name + extension;
 
-      // Экспортируем изображение
-      downloadImage(imageData, format, fullFilename, quality[0] / 100);
+      await downloadImage(imageData, format, fullFilename, buildExportOptions());
       
       setOpen(false);
     } catch (error) {
@@ -55,15 +286,6 @@ export function ExportHandler({ onError }: ExportHandlerProps) {
     }
   };
 
-  const getFileExtension = () => {
-    switch (format) {
-      case 'png': return '.png';
-      case 'jpg': return '.jpg';
-      case 'gb7': return '.gb7';
-      default: return '.png';
-    }
-  };
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -81,14 +303,24 @@ export function ExportHandler({ onError }: ExportHandlerProps) {
           {/* Выбор формата */}
           <div className="space-y-2">
             <Label>Формат файла</Label>
-            <Select value={format} onValueChange={(value: 'png' | 'jpg' | 'gb7') => setFormat(value)}>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="png">PNG (без потерь)</SelectItem>
                 <SelectItem value="jpg">JPEG (с сжатием)</SelectItem>
+                {canvasFormats.includes('webp') && <SelectItem value="webp">WebP (с сжатием, с прозрачностью)</SelectItem>}
+                {canvasFormats.includes('avif') && <SelectItem value="avif">AVIF (высокое сжатие)</SelectItem>}
                 <SelectItem value="gb7">GB7 (пользовательский формат)</SelectItem>
+                <SelectItem value="gif">GIF (до 256 цветов)</SelectItem>
+                <SelectItem value="ico">ICO (значок с несколькими размерами)</SelectItem>
+                <SelectItem value="tiff">TIFF (для печати и сканеров)</SelectItem>
+                <SelectItem value="psd">PSD (слои Photoshop)</SelectItem>
+                <SelectItem value="bmp">BMP (без сжатия)</SelectItem>
+                <SelectItem value="pgm">PGM (оттенки серого)</SelectItem>
+                <SelectItem value="ppm">PPM (RGB без прозрачности)</SelectItem>
+                <SelectItem value="pam">PAM (RGBA)</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -105,15 +337,50 @@ export function ExportHandler({ onError }: ExportHandlerProps) {
                 className="flex-1"
               />
               <span className="flex items-center px-3 text-sm text-muted-foreground border border-l-0 rounded-r-md bg-muted">
-                {getFileExtension()}
+                {EXPORT_EXTENSIONS[format]}
               </span>
             </div>
           </div>
 
-          {/* Качество для JPEG */}
-          {format === 'jpg' && (
+          {/* Служебные блоки PNG */}
+          {format === 'png' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="png-dpi">Разрешение, DPI</Label>
+                <Input
+                  id="png-dpi"
+                  type="number"
+                  min={1}
+                  value={documentProperties.dpi ?? ''}
+                  onChange={(e) => handleDpiChange(e.target.value)}
+                  placeholder="Не задано"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="png-metadata"
+                  checked={includeMetadata}
+                  onCheckedChange={(checked) => setIncludeMetadata(checked as boolean)}
+                />
+                <Label htmlFor="png-metadata">Сохранить название, автора, описание и программу</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="png-time"
+                  checked={pngModifiedTime}
+                  onCheckedChange={(checked) => setPngModifiedTime(checked as boolean)}
+                />
+                <Label htmlFor="png-time">Записать время изменения</Label>
+              </div>
+            </>
+          )}
+
+          {/* Качество для форматов с потерями */}
+          {isLossy && (
             <div className="space-y-2">
-              <Label>Качество JPEG: {quality[0]}%</Label>
+              <Label>Качество: {quality[0]}%</Label>
               <Slider
                 value={quality}
                 onValueChange={setQuality}
@@ -125,6 +392,277 @@ export function ExportHandler({ onError }: ExportHandlerProps) {
             </div>
           )}
 
+          {/* Версия GB7 */}
+          {format === 'gb7' && (
+            <div className="space-y-2">
+              <Label>Версия GB7</Label>
+              <Select value={gb7Compression} onValueChange={(value: GB7Compression) => setGb7Compression(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Версия 1 (без сжатия)</SelectItem>
+                  <SelectItem value="rle">Версия 2 (RLE-сжатие)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Квантование GB7 */}
+          {format === 'gb7' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Дизеринг яркости</Label>
+                  <Select value={grayDither} onValueChange={(value: DitherMethod) => setGrayDither(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DITHER_METHOD_INFO) as DitherMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{DITHER_METHOD_INFO[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Дизеринг маски</Label>
+                  <Select value={alphaDither} onValueChange={(value: DitherMethod) => setAlphaDither(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DITHER_METHOD_INFO) as DitherMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{DITHER_METHOD_INFO[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {alphaDither === 'none' && (
+                <div className="space-y-2">
+                  <Label>Порог прозрачности: {alphaThreshold[0]}</Label>
+                  <Slider
+                    value={alphaThreshold}
+                    onValueChange={setAlphaThreshold}
+                    min={1}
+                    max={255}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="gb7-metadata"
+                  checked={includeMetadata}
+                  onCheckedChange={(checked) => setIncludeMetadata(checked as boolean)}
+                />
+                <Label htmlFor="gb7-metadata">Сохранить свойства документа</Label>
+              </div>
+
+              {layers.length > 1 && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="gb7-layers"
+                    checked={includeLayers}
+                    onCheckedChange={(checked) => setIncludeLayers(checked as boolean)}
+                  />
+                  <Label htmlFor="gb7-layers">Сохранить слои (имя, видимость, непрозрачность, режим наложения)</Label>
+                </div>
+              )}
+
+              <ExportPreview
+                imageData={previewImageData}
+                caption="Предпросмотр квантования (центральный фрагмент 1:1)"
+              />
+            </>
+          )}
+
+          {/* Квантование GIF */}
+          {format === 'gif' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Палитра</Label>
+                  <Select value={gifMethod} onValueChange={(value: QuantizeMethod) => setGifMethod(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(QUANTIZE_METHOD_INFO) as QuantizeMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{QUANTIZE_METHOD_INFO[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Дизеринг</Label>
+                  <Select value={gifDither} onValueChange={(value: DitherMethod) => setGifDither(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DITHER_METHOD_INFO) as DitherMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>{DITHER_METHOD_INFO[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Количество цветов: {gifColors[0]}</Label>
+                <Slider
+                  value={gifColors}
+                  onValueChange={setGifColors}
+                  min={2}
+                  max={256}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="gif-transparency"
+                  checked={gifTransparency}
+                  onCheckedChange={(checked) => setGifTransparency(checked as boolean)}
+                />
+                <Label htmlFor="gif-transparency">Прозрачный цвет</Label>
+              </div>
+
+              {gifTransparency && (
+                <div className="space-y-2">
+                  <Label>Порог прозрачности: {alphaThreshold[0]}</Label>
+                  <Slider
+                    value={alphaThreshold}
+                    onValueChange={setAlphaThreshold}
+                    min={1}
+                    max={255}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <ExportPreview
+                imageData={previewImageData}
+                caption="Предпросмотр палитры (центральный фрагмент 1:1)"
+              />
+            </>
+          )}
+
+          {/* Размеры значка ICO */}
+          {format === 'ico' && (
+            <>
+              <div className="space-y-2">
+                <Label>Размеры значка</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {ICO_SIZES.map(size => (
+                    <div key={size} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`ico-size-${size}`}
+                        checked={icoSizes.includes(size)}
+                        onCheckedChange={(checked) => setIcoSizes(sizes =>
+                          checked ? [...sizes, size].sort((a, b) => a - b) : sizes.filter(s => s !== size)
+                        )}
+                      />
+                      <Label htmlFor={`ico-size-${size}`}>{size}×{size}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Интерполяция</Label>
+                <Select value={icoMethod} onValueChange={(value: 'nearest' | 'bilinear') => setIcoMethod(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="nearest">{interpolationInfo.nearest.name}</SelectItem>
+                    <SelectItem value="bilinear">{interpolationInfo.bilinear.name}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {/* Параметры TIFF */}
+          {format === 'tiff' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Сжатие</Label>
+                <Select value={tiffCompression} onValueChange={(value: TIFFCompression) => setTiffCompression(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Без сжатия</SelectItem>
+                    <SelectItem value="lzw">LZW</SelectItem>
+                    <SelectItem value="packbits">PackBits</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Каналы</Label>
+                <Select value={tiffColorMode} onValueChange={(value: TIFFColorMode) => setTiffColorMode(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rgba">RGBA</SelectItem>
+                    <SelectItem value="rgb">RGB</SelectItem>
+                    <SelectItem value="gray">Оттенки серого</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Глубина</Label>
+                <Select value={String(tiffBitDepth)} onValueChange={(value) => setTiffBitDepth(Number(value) as 8 | 16)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="8">8 бит</SelectItem>
+                    <SelectItem value="16">16 бит</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Глубина цвета BMP */}
+          {format === 'bmp' && (
+            <div className="space-y-2">
+              <Label>Глубина цвета</Label>
+              <Select value={String(bmpBitDepth)} onValueChange={(value) => setBmpBitDepth(Number(value) as BMPBitDepth)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="24">24 бита (без прозрачности)</SelectItem>
+                  <SelectItem value="32">32 бита (с альфа-каналом)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Текстовый вариант Netpbm */}
+          {(format === 'pgm' || format === 'ppm') && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="netpbm-ascii"
+                checked={netpbmAscii}
+                onCheckedChange={(checked) => setNetpbmAscii(checked as boolean)}
+              />
+              <Label htmlFor="netpbm-ascii">Текстовый вариант (ASCII, {format === 'pgm' ? 'P2' : 'P3'})</Label>
+            </div>
+          )}
+
           {/* Информация о формате */}
           <div className="text-sm text-muted-foreground p-3 bg-muted rounded-md">
             {format === 'png' && (
@@ -133,11 +671,68 @@ export function ExportHandler({ onError }: ExportHandlerProps) {
             {format === 'jpg' && (
               <p>JPEG - формат с сжатием, не поддерживает прозрачность. Подходит для фотографий.</p>
             )}
+            {format === 'webp' && (
+              <p>WebP - современный формат с сжатием, поддерживает прозрачность. Файлы меньше JPEG при том же качестве.</p>
+            )}
+            {format === 'avif' && (
+              <p>AVIF - формат с высокой степенью сжатия и поддержкой прозрачности. Открывается не во всех программах.</p>
+            )}
             {format === 'gb7' && (
-              <p>GB7 - пользовательский формат без сжатия, поддерживает прозрачность. Может быть открыт только в этом редакторе.</p>
+              <p>
+                GB7 - пользовательский формат, поддерживает прозрачность. Может быть открыт только в этом редакторе.
+                {gb7Compression === 'rle'
+                  ? ' Версия 2 сжимает повторяющиеся пиксели - подходит для штриховой графики и сканов.'
+                  : ' Версия 1 хранит пиксели без сжатия.'}
+              </p>
+            )}
+            {format === 'gif' && (
+              <p>
+                GIF - индексированный формат до 256 цветов, поддерживается всеми браузерами.
+                {gifTransparency
+                  ? ' Пиксели прозрачнее порога получают прозрачный цвет палитры.'
+                  : ' Прозрачность не сохраняется.'}
+              </p>
+            )}
+            {format === 'ico' && (
+              <p>
+                ICO - значок Windows и сайтов. Все выбранные размеры сохраняются в одном файле вместе с прозрачностью;
+                неквадратное изображение вписывается с прозрачными полями.
+              </p>
+            )}
+            {format === 'tiff' && (
+              <p>
+                TIFF - формат без потерь для печати, сканеров и научных приложений.
+                {tiffColorMode === 'rgba' ? ' Сохраняет прозрачность.' : ' Прозрачность не сохраняется.'}
+              </p>
+            )}
+            {format === 'psd' && (
+              <p>
+                PSD - документ Photoshop. Каждый слой сохраняется отдельно с именем, непрозрачностью,
+                видимостью и режимом наложения, вместе со сведённым изображением.
+              </p>
+            )}
+            {format === 'bmp' && (
+              <p>
+                BMP - несжатый растровый формат Windows, совместим со старыми программами.
+                {bmpBitDepth === 32 ? ' 32-битный вариант сохраняет прозрачность.' : ' 24-битный вариант не сохраняет прозрачность.'}
+              </p>
+            )}
+            {(format === 'pgm' || format === 'ppm' || format === 'pam') && (
+              <p>
+                {format === 'pgm' && 'PGM - 8-битные оттенки серого, без прозрачности.'}
+                {format === 'ppm' && 'PPM - 8-битный RGB, без прозрачности.'}
+                {format === 'pam' && 'PAM - 8-битный RGBA, сохраняет прозрачность.'}
+                {' '}Форматы Netpbm читаются научными и консольными инструментами обработки изображений.
+              </p>
             )}
           </div>
 
+          {/* Оценка размера файла */}
+          <p className="text-sm text-muted-foreground">
+            Примерный размер файла:{' '}
+            {isEstimating ? 'вычисляется…' : estimatedSize !== null ? formatFileSize(estimatedSize) : 'неизвестен'}
+          </p>
+
           {/* Кнопки */}
           <div className="flex justify-between pt-4">
             <Button variant="outline" onClick={() => setOpen(false)}>
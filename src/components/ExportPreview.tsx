@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+interface ExportPreviewProps {
+  imageData: ImageData | null;
+  caption?: string;
+}
+
+// Показывает результат квантования перед экспортом в масштабе 1:1
+export function ExportPreview({ imageData, caption }: ExportPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !imageData) return;
+
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+    ctx?.putImageData(imageData, 0, 0);
+  }, [imageData]);
+
+  if (!imageData) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div
+        className="flex items-center justify-center border rounded-md overflow-hidden max-h-64"
+        style={{
+          backgroundImage: 'repeating-conic-gradient(#e5e5e5 0% 25%, #ffffff 0% 50%)',
+          backgroundSize: '16px 16px'
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-64"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      </div>
+      {caption && (
+        <p className="text-xs text-muted-foreground">{caption}</p>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import type { MouseEvent } from 'react';
 import { useEditor } from '@/context/EditorContext';
 import { getAllColorSpaces, rgbToHex } from '@/lib/colorSpaces';
 import type { RGB } from '@/lib/colorSpaces';
+import { isTextInput } from '@/lib/utils';
 
 interface ImageCanvasProps {
   imageUrl: string | null;
@@ -142,6 +143,7 @@ export function ImageCanvas({ imageUrl, zoomLevel, metadata, onImageLoad, onImag
     if (activeTool !== 'hand') return;
     
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
       const step = 10; // Шаг перемещения в пикселях
       
       switch (e.key) {
@@ -2,6 +2,9 @@ import React from 'react';
 import { cn } from '@/lib/utils';
 import { ZoomControls } from './ZoomControls';
 import { useEditor } from '@/context/EditorContext';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatDocumentProperty, getDocumentPropertyLabel } from '@/lib/documentProperties';
+import { Info } from 'lucide-react';
 
 interface ImageInfoProps {
   zoomLevel: number;
@@ -9,32 +12,22 @@ interface ImageInfoProps {
 }
 
 export function ImageInfo({ zoomLevel, onZoomChange }: ImageInfoProps) {
-  const { layers, activeLayerId } = useEditor();
+  const { layers, documentSize, activeLayerId, documentProperties } = useEditor();
+  const propertyEntries = Object.entries(documentProperties);
   
   // Получаем активный слой
   const activeLayer = layers.find(layer => layer.id === activeLayerId);
   
-  // Вычисляем общие размеры canvas на основе всех слоев
   const canvasInfo = React.useMemo(() => {
     if (layers.length === 0) return null;
     
-    let maxWidth = 0;
-    let maxHeight = 0;
-    
-    layers.forEach(layer => {
-      if (layer.imageData) {
-        maxWidth = Math.max(maxWidth, layer.imageData.width);
-        maxHeight = Math.max(maxHeight, layer.imageData.height);
-      }
-    });
-    
     return {
-      width: maxWidth,
-      height: maxHeight,
+      width: documentSize?.width ?? 0,
+      height: documentSize?.height ?? 0,
       layersCount: layers.length,
       activeLayerName: activeLayer?.name || 'Нет'
     };
-  }, [layers, activeLayer]);
+  }, [layers, documentSize, activeLayer]);
   
   return (
     <footer className={cn(
@@ -47,6 +40,26 @@ export function ImageInfo({ zoomLevel, onZoomChange }: ImageInfoProps) {
             <span>Размер: {canvasInfo.width}×{canvasInfo.height}px</span>
             <span>Слоев: {canvasInfo.layersCount}</span>
             <span>Активный: {canvasInfo.activeLayerName}</span>
+            {propertyEntries.length > 0 && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="flex items-center gap-1 cursor-default">
+                    <Info className="w-4 h-4" />
+                    {documentProperties.title || 'Свойства документа'}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent side="top">
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    {propertyEntries.map(([key, value]) => (
+                      <React.Fragment key={key}>
+                        <dt className="font-medium">{getDocumentPropertyLabel(key)}:</dt>
+                        <dd>{formatDocumentProperty(key, value)}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </div>
           
           <div className="flex-shrink-0 ml-4">
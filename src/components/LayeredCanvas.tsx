@@ -1,9 +1,10 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import type { MouseEvent } from 'react';
 import { useEditor } from '@/context/EditorContext';
 import { getAllColorSpaces, rgbToHex } from '@/lib/colorSpaces';
 import type { RGB } from '@/lib/colorSpaces';
 import { blendLayers } from '@/lib/blendModes';
+import { isTextInput } from '@/lib/utils';
 
 interface LayeredCanvasProps {
   zoomLevel: number;
@@ -17,6 +18,8 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [imageOffset, setImageOffset] = useState({ x: 0, y: 0 });
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  // Дробная часть сдвига слоя, накопленная при перетаскивании в масштабе
+  const moveRemainder = useRef({ x: 0, y: 0 });
 
   const clampValue = useCallback((value: number, min: number, max: number) => {
     if (value < min) return min;
@@ -61,28 +64,16 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     activeTool,
     setPrimaryColor,
     setSecondaryColor,
+    documentSize,
     layers,
-    activeLayerId
+    activeLayerId,
+    offsetLayer
   } = useEditor();
   
-  // Вычисляем размеры canvas на основе слоев
+  // Размер canvas — размер документа; слои со смещением обрезаются по нему
   const calculateCanvasSize = useCallback(() => {
-    if (layers.length === 0) {
-      return { width: 800, height: 600 };
-    }
-    
-    let maxWidth = 0;
-    let maxHeight = 0;
-    
-    layers.forEach(layer => {
-      if (layer.imageData) {
-        maxWidth = Math.max(maxWidth, layer.imageData.width);
-        maxHeight = Math.max(maxHeight, layer.imageData.height);
-      }
-    });
-    
-    return { width: maxWidth || 800, height: maxHeight || 600 };
-  }, [layers]);
+    return documentSize ?? { width: 800, height: 600 };
+  }, [documentSize]);
   
   // Обновляем размеры canvas при изменении слоев
   useEffect(() => {
@@ -118,9 +109,32 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     setImageOffset(prev => clampOffset(prev));
   }, [clampOffset]);
   
+  // Сведённое изображение пересчитывается только при изменении слоев,
+  // а не при каждом сдвиге или масштабировании
+  const compositeCanvas = useMemo(() => {
+    const visibleLayers = layers.filter(layer => layer.visible && layer.imageData);
+    if (visibleLayers.length === 0) return null;
+
+    const tempCanvas = document.createElement('canvas');
+    tempCanvas.width = canvasSize.width;
+    tempCanvas.height = canvasSize.height;
+    const tempCtx = tempCanvas.getContext('2d');
+    if (!tempCtx) return null;
+
+    // Оптимизация: если только один слой без групп, масок и коррекций, копируем его напрямую
+    if (visibleLayers.length === 1 && !layers.some(layer => layer.isGroup || layer.mask?.enabled || layer.adjustment)) {
+      tempCtx.putImageData(visibleLayers[0].imageData!, visibleLayers[0].x ?? 0, visibleLayers[0].y ?? 0);
+      return { canvas: tempCanvas, opacity: visibleLayers[0].opacity / 100 };
+    }
+
+    // Для нескольких слоев и групп используем смешивание
+    tempCtx.putImageData(blendLayers(layers, canvasSize.width, canvasSize.height), 0, 0);
+    return { canvas: tempCanvas, opacity: 1 };
+  }, [layers, canvasSize]);
+
   // Функция для отрисовки всех слоев
   const drawLayers = useCallback(() => {
-    if (!canvasRef.current || layers.length === 0) return;
+    if (!canvasRef.current) return;
     
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
@@ -128,10 +142,7 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     
     // Очищаем canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Фильтруем видимые слои
-    const visibleLayers = layers.filter(layer => layer.visible && layer.imageData);
-    if (visibleLayers.length === 0) return;
+    if (!compositeCanvas) return;
     
     // Вычисляем масштабированные размеры
     const scaleFactor = zoomLevel / 100;
@@ -144,46 +155,11 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     
     ctx.imageSmoothingEnabled = zoomLevel <= 100;
     
-    // Оптимизация: если только один слой, рисуем его напрямую
-    if (visibleLayers.length === 1) {
-      const layer = visibleLayers[0];
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvasSize.width;
-      tempCanvas.height = canvasSize.height;
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx && layer.imageData) {
-        tempCtx.putImageData(layer.imageData, 0, 0);
-        
-        // Применяем непрозрачность
-        ctx.globalAlpha = layer.opacity / 100;
-        ctx.drawImage(tempCanvas, centerX, centerY, scaledWidth, scaledHeight);
-        ctx.globalAlpha = 1;
-      }
-    } else {
-      // Для нескольких слоев используем смешивание
-      const layersToBlend = visibleLayers.map(layer => ({
-        imageData: layer.imageData!,
-        blendMode: layer.blendMode,
-        opacity: layer.opacity,
-        visible: layer.visible
-      }));
-      
-      // Смешиваем слои
-      const blendedImage = blendLayers(layersToBlend, canvasSize.width, canvasSize.height);
-      
-      // Создаем временный canvas для отрисовки смешанного изображения
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvasSize.width;
-      tempCanvas.height = canvasSize.height;
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx) {
-        tempCtx.putImageData(blendedImage, 0, 0);
-        ctx.drawImage(tempCanvas, centerX, centerY, scaledWidth, scaledHeight);
-      }
-    }
-  }, [layers, canvasSize, zoomLevel, imageOffset]);
+    // Непрозрачность единственного слоя применяется при отрисовке
+    ctx.globalAlpha = compositeCanvas.opacity;
+    ctx.drawImage(compositeCanvas.canvas, centerX, centerY, scaledWidth, scaledHeight);
+    ctx.globalAlpha = 1;
+  }, [compositeCanvas, canvasSize, zoomLevel, imageOffset]);
 
   // Resize canvas to fill container
   useEffect(() => {
@@ -224,6 +200,7 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     if (activeTool !== 'hand') return;
     
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
       const step = 10;
       
       switch (e.key) {
@@ -250,21 +227,66 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [activeTool]);
   
+  // Стрелки сдвигают активный слой на 1 пиксель, с Shift — на 10
+  useEffect(() => {
+    if (activeTool !== 'move' || !activeLayerId) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
+      const step = e.shiftKey ? 10 : 1;
+      
+      switch (e.key) {
+        case 'ArrowUp':
+          e.preventDefault();
+          offsetLayer(activeLayerId, 0, -step);
+          break;
+        case 'ArrowDown':
+          e.preventDefault();
+          offsetLayer(activeLayerId, 0, step);
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          offsetLayer(activeLayerId, -step, 0);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          offsetLayer(activeLayerId, step, 0);
+          break;
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTool, activeLayerId, offsetLayer]);
+  
   // Обработка перетаскивания
   useEffect(() => {
     if (!isDragging) return;
     
     const handleDocumentMouseMove = (e: globalThis.MouseEvent) => {
-      if (activeTool !== 'hand') return;
+      if (activeTool !== 'hand' && activeTool !== 'move') return;
       
       e.preventDefault();
       const dx = e.clientX - dragStart.x;
       const dy = e.clientY - dragStart.y;
       
-      setImageOffset(prev => clampOffset({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }, prev));
+      if (activeTool === 'move') {
+        // Сдвиг на экране переводится в пиксели документа
+        if (activeLayerId) {
+          const scaleFactor = zoomLevel / 100;
+          const totalX = moveRemainder.current.x + dx / scaleFactor;
+          const totalY = moveRemainder.current.y + dy / scaleFactor;
+          const stepX = Math.trunc(totalX);
+          const stepY = Math.trunc(totalY);
+          moveRemainder.current = { x: totalX - stepX, y: totalY - stepY };
+          offsetLayer(activeLayerId, stepX, stepY);
+        }
+      } else {
+        setImageOffset(prev => clampOffset({
+          x: prev.x + dx,
+          y: prev.y + dy
+        }, prev));
+      }
       
       setDragStart({ x: e.clientX, y: e.clientY });
     };
@@ -280,12 +302,13 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
       document.removeEventListener('mousemove', handleDocumentMouseMove);
       document.removeEventListener('mouseup', handleDocumentMouseUp);
     };
-  }, [isDragging, activeTool, dragStart]);
+  }, [isDragging, activeTool, dragStart, activeLayerId, zoomLevel, offsetLayer]);
   
   // Обработчики мыши
   const handleMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
-    if (activeTool === 'hand') {
+    if (activeTool === 'hand' || activeTool === 'move') {
       e.preventDefault();
+      moveRemainder.current = { x: 0, y: 0 };
       setIsDragging(true);
       setDragStart({ x: e.clientX, y: e.clientY });
     }
@@ -323,8 +346,12 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
       let pixelData: Uint8ClampedArray | null = null;
       
       if (activeLayer && activeLayer.imageData) {
-        const pixelIndex = (imageY * activeLayer.imageData.width + imageX) * 4;
-        if (pixelIndex >= 0 && pixelIndex < activeLayer.imageData.data.length) {
+        // Координаты внутри слоя с учетом его смещения в документе
+        const layerX = imageX - (activeLayer.x ?? 0);
+        const layerY = imageY - (activeLayer.y ?? 0);
+        const { width, height } = activeLayer.imageData;
+        if (layerX >= 0 && layerX < width && layerY >= 0 && layerY < height) {
+          const pixelIndex = (layerY * width + layerX) * 4;
           pixelData = activeLayer.imageData.data.slice(pixelIndex, pixelIndex + 4);
         }
       }
@@ -368,7 +395,8 @@ export function LayeredCanvas({ zoomLevel, onZoomChange }: LayeredCanvasProps) {
         className="absolute inset-0 w-full h-full"
         style={{
           cursor: activeTool === 'hand' ? (isDragging ? 'grabbing' : 'grab') :
-                  activeTool === 'eyedropper' ? 'crosshair' : 'default',
+                  activeTool === 'eyedropper' ? 'crosshair' :
+                  activeTool === 'move' ? 'move' : 'default',
           imageRendering: zoomLevel > 100 ? 'pixelated' : 'auto'
         }}
         onMouseDown={handleMouseDown}
@@ -1,13 +1,31 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useEditor } from '@/context/EditorContext';
-import type { BlendMode } from '@/context/EditorContext';
+import type { BlendMode, Layer } from '@/context/EditorContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Eye, EyeOff, Trash2, ArrowUp, ArrowDown, Plus, Upload, Palette } from 'lucide-react';
+import {
+  Eye, EyeOff, Trash2, GripVertical, Plus, Upload, Palette, Folder, FolderPlus, ChevronDown, ChevronRight,
+  SquareDashed, Link, Unlink, Power, PowerOff, Contrast, X, SlidersHorizontal
+} from 'lucide-react';
 import { FiltersMenu } from './FiltersMenu';
+import { AdjustmentModal } from './AdjustmentModal';
+import { loadImageFile, IMAGE_FILE_ACCEPT } from '@/lib/imageLoader';
+import { copyImageToClipboard, getClipboardImageFile } from '@/lib/clipboard';
+import { blendLayers } from '@/lib/blendModes';
+import { imageDataToDataUrl, isTextInput } from '@/lib/utils';
+import { getCenteredOffset } from '@/lib/layerGeometry';
+import { getDescendantIds, getLayerTreeRows } from '@/lib/layerTree';
+import { createLayerMask, createMaskFromChannel, maskToImageData, type LayerMask } from '@/lib/layerMask';
+import {
+  ADJUSTMENT_LABELS,
+  createDefaultAdjustment,
+  describeAdjustment,
+  type Adjustment,
+  type AdjustmentType
+} from '@/lib/adjustments';
 
 // Описания режимов наложения
 const BLEND_MODE_DESCRIPTIONS: Record<BlendMode, string> = {
@@ -17,14 +35,36 @@ const BLEND_MODE_DESCRIPTIONS: Record<BlendMode, string> = {
   overlay: 'Наложение - комбинация умножения и экрана в зависимости от яркости нижнего слоя'
 };
 
+// Значение списка режимов для группы с пропуском
+const PASS_THROUGH = 'pass-through';
+const PASS_THROUGH_DESCRIPTION = 'Пропуск - слои группы смешиваются прямо с нижележащими, как если бы группы не было';
+
+// Отступ вложенного слоя на каждый уровень группы
+const TREE_INDENT = 16;
+
+type DropPosition = 'above' | 'below' | 'inside';
+
+// Превью масок: маска заменяется целиком при каждом изменении, поэтому кэш по объекту
+const maskThumbnails = new WeakMap<LayerMask, string>();
+
+const getMaskThumbnail = (mask: LayerMask) => {
+  let url = maskThumbnails.get(mask);
+  if (!url) {
+    url = imageDataToDataUrl(maskToImageData(mask));
+    maskThumbnails.set(mask, url);
+  }
+  return url;
+};
+
 interface AddLayerModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddImageLayer: () => void;
   onAddColorLayer: (color: string) => void;
+  onAddAdjustmentLayer: (type: AdjustmentType) => void;
 }
 
-function AddLayerModal({ isOpen, onClose, onAddImageLayer, onAddColorLayer }: AddLayerModalProps) {
+function AddLayerModal({ isOpen, onClose, onAddImageLayer, onAddColorLayer, onAddAdjustmentLayer }: AddLayerModalProps) {
   const [selectedColor, setSelectedColor] = useState('#ffffff');
   
   if (!isOpen) return null;
@@ -63,6 +103,23 @@ function AddLayerModal({ isOpen, onClose, onAddImageLayer, onAddColorLayer }: Ad
               </Button>
             </div>
           </div>
+          
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Корректирующий слой:</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(ADJUSTMENT_LABELS) as AdjustmentType[]).map(type => (
+                <Button
+                  key={type}
+                  onClick={() => onAddAdjustmentLayer(type)}
+                  className="h-auto min-h-8 whitespace-normal text-xs"
+                  variant="outline"
+                  size="sm"
+                >
+                  {ADJUSTMENT_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+          </div>
         </div>
         
         <div className="flex justify-end mt-6">
@@ -77,6 +134,7 @@ function AddLayerModal({ isOpen, onClose, onAddImageLayer, onAddColorLayer }: Ad
 
 export function LayersPanel() {
   const {
+    documentSize,
     layers,
     activeLayerId,
     setActiveLayer,
@@ -91,83 +149,107 @@ export function LayersPanel() {
   
   const [showAddModal, setShowAddModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Перетаскиваемый слой и место, куда он будет вставлен
+  const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ layerId: string; position: DropPosition } | null>(null);
+  // Корректирующий слой, открытый для изменения, и его параметры до открытия
+  const [adjustmentEdit, setAdjustmentEdit] = useState<{ layerId: string; original: Adjustment } | null>(null);
+  
+  // Добавляет слой из ImageData по центру документа
+  const addImageDataLayer = (imageData: ImageData, url: string) => {
+    const offset = documentSize ? getCenteredOffset(imageData.width, imageData.height, documentSize) : { x: 0, y: 0 };
+    
+    // В пустом документе слой становится фоном, как при открытии файла
+    addLayer({
+      name: layers.length === 0 ? 'Фон' : `Слой ${layers.length + 1}`,
+      visible: true,
+      opacity: 100,
+      blendMode: 'normal',
+      imageData,
+      imageUrl: url,
+      isBackground: layers.length === 0,
+      ...offset
+    });
+  };
+
+  // Ctrl+V вставляет изображение новым слоем, Ctrl+C копирует активный слой, Ctrl+Shift+C — сведённое изображение.
+  // Обработчики читают текущие слои через ref, поэтому подписка на события окна создается один раз
+  const clipboardHandlers = useRef<{
+    paste: (e: ClipboardEvent) => void;
+    keyDown: (e: KeyboardEvent) => void;
+  } | null>(null);
+
+  useEffect(() => {
+    const handlePaste = async (e: ClipboardEvent) => {
+      const file = getClipboardImageFile(e.clipboardData);
+      if (!file) return;
+
+      e.preventDefault();
+      setError(null);
+      try {
+        const { imageData, url } = await loadImageFile(file);
+        addImageDataLayer(imageData, url);
+      } catch (error) {
+        console.error('Ошибка при вставке изображения:', error);
+        setError(`Не удалось вставить изображение: ${error instanceof Error ? error.message : 'неизвестная ошибка'}`);
+      }
+    };
+
+    const handleKeyDown = async (e: KeyboardEvent) => {
+      // Код клавиши не зависит от раскладки
+      if (!(e.ctrlKey || e.metaKey) || e.code !== 'KeyC' || isTextInput(e.target)) return;
+      // Выделенный на странице текст копируется как обычно
+      if (!e.shiftKey && window.getSelection()?.toString()) return;
+
+      let imageData: ImageData | null = null;
+      if (e.shiftKey) {
+        imageData = documentSize ? blendLayers(layers, documentSize.width, documentSize.height) : null;
+      } else {
+        imageData = layers.find(layer => layer.id === activeLayerId)?.imageData ?? null;
+      }
+      if (!imageData) return;
+
+      e.preventDefault();
+      setError(null);
+      try {
+        await copyImageToClipboard(imageData);
+      } catch (error) {
+        console.error('Ошибка при копировании изображения:', error);
+        setError(`Не удалось скопировать изображение: ${error instanceof Error ? error.message : 'неизвестная ошибка'}`);
+      }
+    };
+
+    clipboardHandlers.current = { paste: handlePaste, keyDown: handleKeyDown };
+  });
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => clipboardHandlers.current?.paste(e);
+    const handleKeyDown = (e: KeyboardEvent) => clipboardHandlers.current?.keyDown(e);
+
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
   
   // Обработчик загрузки изображения для нового слоя
   const handleAddImageLayer = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*,.gb7';
+    input.accept = IMAGE_FILE_ACCEPT;
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
+        setError(null);
         try {
-          let url: string;
-          
-          // Проверяем, является ли файл .gb7
-          if (file.name.toLowerCase().endsWith('.gb7')) {
-            // Импортируем функцию parseGB7File
-            const { parseGB7File } = await import('@/lib/parseGB7');
-            const result = await parseGB7File(file);
-            url = result.url;
-          } else {
-            url = URL.createObjectURL(file);
-          }
-          
-          const img = new Image();
-          img.onload = () => {
-            // Создаем ImageData из загруженного изображения
-            const canvas = document.createElement('canvas');
-            canvas.width = img.width;
-            canvas.height = img.height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-              ctx.drawImage(img, 0, 0);
-              const imageData = ctx.getImageData(0, 0, img.width, img.height);
-              
-              // Если это не первый слой, центрируем его относительно первого слоя
-              let finalImageData = imageData;
-              if (layers.length > 0) {
-                const firstLayer = layers[0];
-                if (firstLayer.imageData) {
-                  const baseWidth = firstLayer.imageData.width;
-                  const baseHeight = firstLayer.imageData.height;
-                  
-                  // Создаем новый ImageData с размерами первого слоя
-                  const centeredCanvas = document.createElement('canvas');
-                  centeredCanvas.width = baseWidth;
-                  centeredCanvas.height = baseHeight;
-                  const centeredCtx = centeredCanvas.getContext('2d');
-                  
-                  if (centeredCtx) {
-                    // Вычисляем позицию для центрирования
-                    const offsetX = (baseWidth - img.width) / 2;
-                    const offsetY = (baseHeight - img.height) / 2;
-                    
-                    // Рисуем изображение по центру
-                    centeredCtx.drawImage(img, offsetX, offsetY);
-                    finalImageData = centeredCtx.getImageData(0, 0, baseWidth, baseHeight);
-                  }
-                }
-              }
-              
-              addLayer({
-                name: `Слой ${layers.length + 1}`,
-                visible: true,
-                opacity: 100,
-                blendMode: 'normal',
-                imageData: finalImageData,
-                imageUrl: url
-              });
-            }
-          };
-          
-          img.onerror = () => {
-            console.error('Не удалось загрузить изображение');
-          };
-          
-          img.src = url;
+          // Многослойные файлы добавляются одним слоем со сведённым изображением
+          const { imageData, url } = await loadImageFile(file);
+          addImageDataLayer(imageData, url);
         } catch (error) {
           console.error('Ошибка при обработке файла:', error);
+          setError(`Не удалось открыть ${file.name}: ${error instanceof Error ? error.message : 'неизвестная ошибка'}`);
         }
       }
     };
@@ -177,14 +259,8 @@ export function LayersPanel() {
   
   // Обработчик создания слоя с заливкой цветом
   const handleAddColorLayer = (color: string) => {
-    // Определяем размеры на основе первого слоя или используем размеры по умолчанию
-    let width = 800;
-    let height = 600;
-    
-    if (layers.length > 0 && layers[0].imageData) {
-      width = layers[0].imageData.width;
-      height = layers[0].imageData.height;
-    }
+    // Слой заливки размером с документ; в пустом документе — размер по умолчанию
+    const { width, height } = documentSize ?? { width: 800, height: 600 };
     
     const canvas = document.createElement('canvas');
     canvas.width = width;
@@ -209,7 +285,113 @@ export function LayersPanel() {
     setShowAddModal(false);
   };
   
-  const orderedLayers = useMemo(() => [...layers].reverse(), [layers]);
+  // Новая маска открывает весь слой; группа получает маску размером с документ
+  const handleAddMask = (layerId: string) => {
+    const layer = layers.find(item => item.id === layerId);
+    // Маска слоя совпадает с его пикселями, маска группы — с документом
+    if (layer?.imageData) {
+      updateLayer(layerId, { mask: createLayerMask(layer.imageData.width, layer.imageData.height, 255, layer.x, layer.y) });
+      return;
+    }
+    if (documentSize) {
+      updateLayer(layerId, { mask: createLayerMask(documentSize.width, documentSize.height) });
+    }
+  };
+
+  const updateMask = (layerId: string, mask: LayerMask, updates: Partial<LayerMask>) => {
+    updateLayer(layerId, { mask: { ...mask, ...updates } });
+  };
+
+  // Корректирующий слой не содержит пикселей и изменяет все слои под ним
+  const handleAddAdjustmentLayer = (type: AdjustmentType) => {
+    addLayer({
+      name: `${ADJUSTMENT_LABELS[type]} ${layers.filter(layer => layer.adjustment?.type === type).length + 1}`,
+      visible: true,
+      opacity: 100,
+      blendMode: 'normal',
+      imageData: null,
+      imageUrl: null,
+      adjustment: createDefaultAdjustment(type)
+    });
+    setShowAddModal(false);
+  };
+
+  // Закрытие окна коррекции без применения возвращает исходные параметры
+  const closeAdjustmentEdit = (adjustment?: Adjustment) => {
+    if (adjustmentEdit) {
+      updateLayer(adjustmentEdit.layerId, { adjustment: adjustment ?? adjustmentEdit.original });
+    }
+    setAdjustmentEdit(null);
+  };
+
+  // Создает пустую группу над слоями
+  const handleAddGroup = () => {
+    addLayer({
+      name: `Группа ${layers.filter(layer => layer.isGroup).length + 1}`,
+      visible: true,
+      opacity: 100,
+      blendMode: 'normal',
+      imageData: null,
+      imageUrl: null,
+      isGroup: true,
+      passThrough: true
+    });
+  };
+  
+  const layerRows = useMemo(() => getLayerTreeRows(layers), [layers]);
+
+  // Группу нельзя перетащить внутрь нее самой
+  const dragBlockedIds = useMemo(
+    () => (draggedLayerId ? getDescendantIds(layers, draggedLayerId).add(draggedLayerId) : new Set<string>()),
+    [layers, draggedLayerId]
+  );
+
+  const resetLayerDrag = () => {
+    setDraggedLayerId(null);
+    setDropTarget(null);
+  };
+
+  // Верхняя половина карточки — вставка над слоем, нижняя — под ним;
+  // у группы средняя часть карточки — вставка внутрь. Под фоновый слой вставить нельзя
+  const handleLayerDragOver = (e: React.DragEvent<HTMLDivElement>, { id: layerId, isGroup, isBackground }: Layer) => {
+    if (!draggedLayerId || dragBlockedIds.has(layerId)) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    const position: DropPosition = isGroup && offset > 0.25 && offset < 0.75
+      ? 'inside'
+      : offset < 0.5 || isBackground ? 'above' : 'below';
+    if (dropTarget?.layerId !== layerId || dropTarget.position !== position) {
+      setDropTarget({ layerId, position });
+    }
+  };
+
+  const handleLayerDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!draggedLayerId) return;
+
+    e.preventDefault();
+    if (dropTarget) {
+      // Панель показывает слои сверху вниз, а стек хранится снизу вверх
+      const fromIndex = layers.findIndex(layer => layer.id === draggedLayerId);
+      const targetIndex = layers.findIndex(layer => layer.id === dropTarget.layerId);
+      const target = layers[targetIndex];
+      let index = dropTarget.position === 'above' ? targetIndex + 1 : targetIndex;
+      let parentId = target.parentId;
+
+      if (dropTarget.position === 'inside') {
+        // Слой становится верхним в группе: встает после ее последнего вложенного слоя
+        parentId = target.id;
+        const childIndexes = layers.flatMap((layer, i) => (layer.parentId === target.id ? [i] : []));
+        index = childIndexes.length > 0 ? childIndexes[childIndexes.length - 1] + 1 : targetIndex;
+      }
+
+      if (fromIndex < index) index--;
+      moveLayer(draggedLayerId, index, parentId);
+    }
+    resetLayerDrag();
+  };
 
   return (
     <div className="w-80 bg-background border-l flex flex-col h-full">
@@ -217,107 +399,201 @@ export function LayersPanel() {
       <div className="p-4 border-b">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold">Слои</h2>
-          <Button
-            size="sm"
-            onClick={() => setShowAddModal(true)}
-            disabled={layers.length >= 2}
-          >
-            <Plus className="w-4 h-4" />
-          </Button>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddGroup}
+              title="Новая группа"
+            >
+              <FolderPlus className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setShowAddModal(true)}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
-        {layers.length >= 2 && (
-          <p className="text-xs text-muted-foreground mt-1">
-            Максимум 2 слоя
-          </p>
-        )}
       </div>
       
       {/* Список слоев */}
       <div className="flex-1 overflow-y-auto">
         <div className="p-2 space-y-2">
-          {orderedLayers.map((layer) => {
-            const originalIndex = layers.findIndex(originalLayer => originalLayer.id === layer.id);
-            const isTopLayer = originalIndex === layers.length - 1;
-            const isBottomLayer = originalIndex === 0;
+          {layerRows.map(({ layer, depth }) => {
+            const dropPosition = dropTarget?.layerId === layer.id && draggedLayerId !== layer.id
+              ? dropTarget.position
+              : null;
 
             return (
               <div
                 key={layer.id}
-                className={`border rounded-lg p-3 cursor-pointer transition-colors ${
+                className={`relative border rounded-lg p-3 cursor-pointer transition-colors ${
                   layer.id === activeLayerId 
                     ? 'border-primary bg-primary/5' 
                     : 'border-border hover:border-primary/50'
+                } ${draggedLayerId === layer.id ? 'opacity-50' : ''} ${
+                  dropPosition === 'inside' ? 'ring-2 ring-primary' : ''
                 }`}
+                style={{ marginLeft: depth * TREE_INDENT }}
                 onClick={() => setActiveLayer(layer.id)}
+                data-layer-card
+                onDragOver={(e) => handleLayerDragOver(e, layer)}
+                onDrop={handleLayerDrop}
               >
+              {/* Место вставки перетаскиваемого слоя */}
+              {(dropPosition === 'above' || dropPosition === 'below') && (
+                <div
+                  className={`absolute left-0 right-0 h-0.5 bg-primary ${
+                    dropPosition === 'above' ? '-top-[5px]' : '-bottom-[5px]'
+                  }`}
+                />
+              )}
+
               {/* Превью и основная информация */}
               <div className="flex items-center gap-3 mb-3">
-                {/* Превью слоя */}
-                <div className="w-12 h-12 border rounded bg-muted flex-shrink-0 overflow-hidden">
-                  {layer.imageUrl && (
-                    <img
-                      src={layer.imageUrl}
-                      alt={layer.name}
-                      className="w-full h-full object-cover"
-                    />
-                  )}
+                {/* Ручка для перетаскивания */}
+                <div
+                  draggable={!layer.isBackground}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', layer.id);
+                    const card = e.currentTarget.closest('[data-layer-card]');
+                    if (card) e.dataTransfer.setDragImage(card, 16, 16);
+                    setDraggedLayerId(layer.id);
+                  }}
+                  onDragEnd={resetLayerDrag}
+                  onClick={(e) => e.stopPropagation()}
+                  className={`text-muted-foreground -ml-1 ${layer.isBackground ? 'opacity-30' : 'cursor-grab'}`}
+                  title={layer.isBackground ? 'Фоновый слой всегда остается нижним' : 'Перетащите, чтобы изменить порядок слоев'}
+                >
+                  <GripVertical className="w-4 h-4" />
                 </div>
-                
-                {/* Название и кнопки */}
-                <div className="flex-1 min-w-0">
-                  <Input
-                    value={layer.name}
-                    onChange={(e) => updateLayer(layer.id, { name: e.target.value })}
-                    className="text-sm h-8 mb-2"
-                    onClick={(e) => e.stopPropagation()}
-                  />
-                  
-                  <div className="flex items-center gap-1">
-                    {/* Видимость */}
+
+                {/* Превью слоя; у группы — значок папки и кнопка сворачивания */}
+                {layer.isGroup ? (
+                  <div className="w-12 h-12 flex items-center flex-shrink-0 text-muted-foreground">
                     <Button
                       size="sm"
                       variant="ghost"
                       onClick={(e) => {
                         e.stopPropagation();
-                        updateLayer(layer.id, { visible: !layer.visible });
+                        updateLayer(layer.id, { collapsed: !layer.collapsed });
                       }}
                       className="h-6 w-6 p-0"
+                      title={layer.collapsed ? 'Развернуть группу' : 'Свернуть группу'}
                     >
-                      {layer.visible ? (
-                        <Eye className="w-3 h-3" />
+                      {layer.collapsed ? (
+                        <ChevronRight className="w-3 h-3" />
                       ) : (
-                        <EyeOff className="w-3 h-3" />
+                        <ChevronDown className="w-3 h-3" />
                       )}
                     </Button>
-                    
-                    {/* Перемещение вверх */}
+                    <Folder className="w-5 h-5" />
+                  </div>
+                ) : layer.adjustment ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setAdjustmentEdit({ layerId: layer.id, original: layer.adjustment! });
+                    }}
+                    className="w-12 h-12 p-0 flex-shrink-0"
+                    title={`${describeAdjustment(layer.adjustment)}. Нажмите, чтобы изменить`}
+                  >
+                    <SlidersHorizontal className="w-5 h-5" />
+                  </Button>
+                ) : (
+                  <div className="w-12 h-12 border rounded bg-muted flex-shrink-0 overflow-hidden">
+                    {layer.imageUrl && (
+                      <img
+                        src={layer.imageUrl}
+                        alt={layer.name}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Связь и превью маски */}
+                {layer.mask && (
+                  <>
                     <Button
                       size="sm"
                       variant="ghost"
                       onClick={(e) => {
                         e.stopPropagation();
-                        moveLayer(layer.id, 'up');
+                        updateMask(layer.id, layer.mask!, { linked: !layer.mask!.linked });
                       }}
-                      disabled={isTopLayer}
-                      className="h-6 w-6 p-0"
+                      className="h-6 w-4 p-0 -mx-2"
+                      title={layer.mask.linked ? 'Отвязать маску от слоя' : 'Связать маску со слоем'}
                     >
-                      <ArrowUp className="w-3 h-3" />
+                      {layer.mask.linked ? (
+                        <Link className="w-3 h-3" />
+                      ) : (
+                        <Unlink className="w-3 h-3 text-muted-foreground" />
+                      )}
                     </Button>
-                    
-                    {/* Перемещение вниз */}
+                    <div
+                      className={`w-12 h-12 border rounded bg-muted flex-shrink-0 overflow-hidden ${
+                        layer.mask.enabled ? '' : 'opacity-40'
+                      }`}
+                      title={layer.mask.enabled ? 'Маска слоя' : 'Маска выключена'}
+                    >
+                      <img
+                        src={getMaskThumbnail(layer.mask)}
+                        alt={`Маска: ${layer.name}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </div>
+                  </>
+                )}
+                
+                {/* Название и кнопки */}
+                <div className="flex-1 min-w-0">
+                  <Input
+                    value={layer.name}
+                    onChange={(e) => updateLayer(layer.id, { name: e.target.value })}
+                    className="text-sm h-8 mb-2"
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  
+                  <div className="flex items-center gap-1">
+                    {/* Видимость */}
                     <Button
                       size="sm"
                       variant="ghost"
                       onClick={(e) => {
                         e.stopPropagation();
-                        moveLayer(layer.id, 'down');
+                        updateLayer(layer.id, { visible: !layer.visible });
                       }}
-                      disabled={isBottomLayer}
                       className="h-6 w-6 p-0"
                     >
-                      <ArrowDown className="w-3 h-3" />
+                      {layer.visible ? (
+                        <Eye className="w-3 h-3" />
+                      ) : (
+                        <EyeOff className="w-3 h-3" />
+                      )}
                     </Button>
                     
+                    {/* Маска */}
+                    {!layer.mask && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleAddMask(layer.id);
+                        }}
+                        className="h-6 w-6 p-0"
+                        title="Добавить маску"
+                      >
+                        <SquareDashed className="w-3 h-3" />
+                      </Button>
+                    )}
+                    
                     {/* Удаление */}
                     <Button
                       size="sm"
@@ -335,6 +611,44 @@ export function LayersPanel() {
                 </div>
               </div>
               
+              {/* Управление маской */}
+              {layer.mask && (
+                <div className="flex items-center gap-1 mb-3" onClick={(e) => e.stopPropagation()}>
+                  <span className="text-xs font-medium flex-1">Маска:</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateMask(layer.id, layer.mask!, { enabled: !layer.mask!.enabled })}
+                    className="h-6 w-6 p-0"
+                    title={layer.mask.enabled ? 'Выключить маску' : 'Включить маску'}
+                  >
+                    {layer.mask.enabled ? (
+                      <Power className="w-3 h-3" />
+                    ) : (
+                      <PowerOff className="w-3 h-3" />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={layer.mask.inverted ? 'secondary' : 'ghost'}
+                    onClick={() => updateMask(layer.id, layer.mask!, { inverted: !layer.mask!.inverted })}
+                    className="h-6 w-6 p-0"
+                    title="Инвертировать маску"
+                  >
+                    <Contrast className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateLayer(layer.id, { mask: undefined })}
+                    className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                    title="Удалить маску"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+              
               {/* Непрозрачность */}
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -358,13 +672,17 @@ export function LayersPanel() {
                   <TooltipTrigger asChild>
                     <div onClick={(e) => e.stopPropagation()}>
                       <Select
-                        value={layer.blendMode}
-                        onValueChange={(value: BlendMode) => updateLayer(layer.id, { blendMode: value })}
+                        value={layer.isGroup && layer.passThrough ? PASS_THROUGH : layer.blendMode}
+                        onValueChange={(value: BlendMode | typeof PASS_THROUGH) => updateLayer(
+                          layer.id,
+                          value === PASS_THROUGH ? { passThrough: true } : { blendMode: value, passThrough: false }
+                        )}
                       >
                         <SelectTrigger className="h-8 text-xs">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
+                          {layer.isGroup && <SelectItem value={PASS_THROUGH}>Пропуск</SelectItem>}
                           <SelectItem value="normal">Обычный</SelectItem>
                           <SelectItem value="multiply">Умножение</SelectItem>
                           <SelectItem value="screen">Экран</SelectItem>
@@ -375,7 +693,9 @@ export function LayersPanel() {
                   </TooltipTrigger>
                   <TooltipContent>
                     <p className="max-w-xs text-xs">
-                      {BLEND_MODE_DESCRIPTIONS[layer.blendMode]}
+                      {layer.isGroup && layer.passThrough
+                        ? PASS_THROUGH_DESCRIPTION
+                        : BLEND_MODE_DESCRIPTIONS[layer.blendMode]}
                     </p>
                   </TooltipContent>
                 </Tooltip>
@@ -417,6 +737,17 @@ export function LayersPanel() {
                   </div>
                   
                   <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => activeLayerId && updateLayer(activeLayerId, { mask: createMaskFromChannel(channel) })}
+                      disabled={!activeLayerId}
+                      className="h-6 w-6 p-0"
+                      title="Сделать маской активного слоя"
+                    >
+                      <SquareDashed className="w-3 h-3" />
+                    </Button>
+                    
                     <Button
                       size="sm"
                       variant="ghost"
@@ -462,6 +793,16 @@ export function LayersPanel() {
         onClose={() => setShowAddModal(false)}
         onAddImageLayer={handleAddImageLayer}
         onAddColorLayer={handleAddColorLayer}
+        onAddAdjustmentLayer={handleAddAdjustmentLayer}
+      />
+      
+      {/* Параметры корректирующего слоя */}
+      <AdjustmentModal
+        open={adjustmentEdit !== null}
+        onOpenChange={(open) => !open && closeAdjustmentEdit()}
+        adjustment={adjustmentEdit?.original ?? null}
+        onApply={closeAdjustmentEdit}
+        onPreview={(adjustment) => adjustmentEdit && updateLayer(adjustmentEdit.layerId, { adjustment })}
       />
     </div>
   );
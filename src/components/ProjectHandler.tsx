@@ -0,0 +1,83 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useEditor } from '@/context/EditorContext';
+import { PROJECT_EXTENSION, parseProject, serializeProject } from '@/lib/project';
+import { downloadBlob, imageDataToDataUrl, sanitizeFilename } from '@/lib/utils';
+
+interface ProjectHandlerProps {
+  zoomLevel: number;
+  onZoomChange: (zoomLevel: number) => void;
+  onError: (error: string) => void;
+}
+
+export function ProjectHandler({ zoomLevel, onZoomChange, onError }: ProjectHandlerProps) {
+  const {
+    documentSize,
+    layers,
+    activeLayerId,
+    alphaChannels,
+    documentProperties,
+    restoreSession
+  } = useEditor();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    try {
+      const bytes = serializeProject({
+        documentSize,
+        layers,
+        activeLayerId,
+        alphaChannels,
+        zoomLevel,
+        documentProperties
+      });
+      const name = sanitizeFilename(documentProperties.title ?? '', 'project');
+      downloadBlob(new Blob([bytes], { type: 'application/zip' }), `${name}${PROJECT_EXTENSION}`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Не удалось сохранить проект');
+    }
+  };
+
+  const handleOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Сбрасываем значение, чтобы можно было повторно открыть тот же файл
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = parseProject(await file.arrayBuffer());
+
+      // Превью слоев не хранятся в проекте и строятся заново
+      const restoredLayers = project.layers.map(layer => ({
+        ...layer,
+        imageUrl: layer.imageData ? imageDataToDataUrl(layer.imageData) : null
+      }));
+
+      restoreSession({ ...project, layers: restoredLayers });
+      onZoomChange(project.zoomLevel);
+    } catch (error) {
+      console.error('Ошибка при открытии проекта:', error);
+      onError(`Не удалось открыть проект ${file.name}: ${error instanceof Error ? error.message : 'неизвестная ошибка'}`);
+    }
+  };
+
+  return (
+    <>
+      <Button onClick={() => fileInputRef.current?.click()} variant="secondary">
+        Открыть проект
+      </Button>
+      
+      <Button onClick={handleSave} variant="outline" disabled={layers.length === 0}>
+        Сохранить проект
+      </Button>
+      
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleOpen}
+        accept={PROJECT_EXTENSION}
+        className="hidden"
+      />
+    </>
+  );
+}
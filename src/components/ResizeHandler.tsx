@@ -1,7 +1,10 @@
 import React from 'react';
 import { useEditor } from '@/context/EditorContext';
+import type { Layer } from '@/context/EditorContext';
 import { ResizeModal } from '@/components/ResizeModal';
 import { resizeImage } from '@/lib/interpolation';
+import { resizeLayerMask } from '@/lib/layerMask';
+import { scaleLayerBounds } from '@/lib/layerGeometry';
 
 interface ResizeHandlerProps {
   open: boolean;
@@ -10,7 +13,7 @@ interface ResizeHandlerProps {
 }
 
 export function ResizeHandler({ open, onOpenChange, onError }: ResizeHandlerProps) {
-  const { layers, updateLayer } = useEditor();
+  const { documentSize, setDocumentSize, layers, updateLayer } = useEditor();
   
   // Handle resize for all layers (resize canvas)
   const handleResize = (width: number, height: number, method: 'nearest' | 'bilinear') => {
@@ -26,38 +29,58 @@ export function ResizeHandler({ open, onOpenChange, onError }: ResizeHandlerProp
       return;
     }
     
+    if (!documentSize) {
+      onError('Нет слоев для изменения размера');
+      return;
+    }
+    
+    // Слои и маски масштабируются относительно документа вместе со смещениями
+    const sx = width / documentSize.width;
+    const sy = height / documentSize.height;
+    
     try {
       // Resize all layers
       layers.forEach(layer => {
+        const updates: Partial<Layer> = {};
+        
+        // Маски масштабируются вместе с документом, в том числе у групп
+        if (layer.mask) {
+          const bounds = scaleLayerBounds({ x: layer.mask.x ?? 0, y: layer.mask.y ?? 0, width: layer.mask.width, height: layer.mask.height }, sx, sy);
+          updates.mask = { ...resizeLayerMask(layer.mask, bounds.width, bounds.height, method), x: bounds.x, y: bounds.y };
+        }
+
         if (layer.imageData) {
+          const bounds = scaleLayerBounds({ x: layer.x ?? 0, y: layer.y ?? 0, width: layer.imageData.width, height: layer.imageData.height }, sx, sy);
           const resizedData = resizeImage(
             layer.imageData,
             layer.imageData.width,
             layer.imageData.height,
-            width,
-            height,
+            bounds.width,
+            bounds.height,
             method
           );
           
           // Create new image URL
           const canvas = document.createElement('canvas');
-          canvas.width = width;
-          canvas.height = height;
+          canvas.width = bounds.width;
+          canvas.height = bounds.height;
           const ctx = canvas.getContext('2d');
           
           if (ctx) {
             ctx.putImageData(resizedData, 0, 0);
-            const newImageUrl = canvas.toDataURL('image/png');
-            
-            // Update the layer
-            updateLayer(layer.id, {
-              imageData: resizedData,
-              imageUrl: newImageUrl
-            });
+            updates.imageData = resizedData;
+            updates.imageUrl = canvas.toDataURL('image/png');
+            updates.x = bounds.x;
+            updates.y = bounds.y;
           }
         }
+        
+        if (Object.keys(updates).length > 0) {
+          updateLayer(layer.id, updates);
+        }
       });
       
+      setDocumentSize({ width, height });
       onOpenChange(false);
     } catch (error) {
       console.error('Ошибка при изменении размера:', error);
@@ -65,9 +88,7 @@ export function ResizeHandler({ open, onOpenChange, onError }: ResizeHandlerProp
     }
   };
   
-  // Используем размеры первого слоя как базовые
-  const baseLayer = layers[0];
-  if (!baseLayer || !baseLayer.imageData) {
+  if (!documentSize) {
     return null;
   }
   
@@ -76,8 +97,8 @@ export function ResizeHandler({ open, onOpenChange, onError }: ResizeHandlerProp
       open={open}
       onOpenChange={onOpenChange}
       onResize={handleResize}
-      originalWidth={baseLayer.imageData.width}
-      originalHeight={baseLayer.imageData.height}
+      originalWidth={documentSize.width}
+      originalHeight={documentSize.height}
     />
   );
 }
\ No newline at end of file
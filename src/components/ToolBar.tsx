@@ -3,13 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useEditor } from '@/context/EditorContext';
 import type { Tool } from '@/context/EditorContext';
+import { isTextInput } from '@/lib/utils';
 
 // Горячие клавиши для инструментов
 const TOOL_SHORTCUTS = {
   hand: 'H',
   eyedropper: 'I',
   curves: 'M',
-  filter: 'F'
+  filter: 'F',
+  move: 'V'
 };
 
 // Информация об инструментах
@@ -60,6 +62,20 @@ const TOOL_INFO = {
         <polygon points="22,3 2,3 10,12.46 10,19 14,21 14,12.46 22,3"></polygon>
       </svg>
     )
+  },
+  move: {
+    name: 'Перемещение',
+    description: 'Перемещение слоя (V)',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="5 9 2 12 5 15"></polyline>
+        <polyline points="9 5 12 2 15 5"></polyline>
+        <polyline points="15 19 12 22 9 19"></polyline>
+        <polyline points="19 9 22 12 19 15"></polyline>
+        <line x1="2" x2="22" y1="12" y2="12"></line>
+        <line x1="12" x2="12" y1="2" y2="22"></line>
+      </svg>
+    )
   }
 };
 
@@ -69,6 +85,7 @@ export function ToolBar() {
   // Обработчик нажатия клавиш для активации инструментов
   React.useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextInput(e.target)) return;
       const key = e.key.toUpperCase();
       
       if (key === TOOL_SHORTCUTS.hand) {
@@ -79,6 +96,8 @@ export function ToolBar() {
         setActiveTool('curves');
       } else if (key === TOOL_SHORTCUTS.filter) {
         setActiveTool('filter');
+      } else if (key === TOOL_SHORTCUTS.move) {
+        setActiveTool('move');
       }
     };
     
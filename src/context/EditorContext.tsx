@@ -2,9 +2,14 @@ import React, { createContext, useContext, useState } from 'react';
 import type { ReactNode } from 'react';
 import { getAllColorSpaces, getContrast, isContrastSufficient } from '@/lib/colorSpaces';
 import type { RGB } from '@/lib/colorSpaces';
+import type { DocumentProperties } from '@/lib/documentProperties';
+import { getDescendantIds } from '@/lib/layerTree';
+import type { LayerMask } from '@/lib/layerMask';
+import { getLayerMoveUpdates, type DocumentSize } from '@/lib/layerGeometry';
+import type { Adjustment } from '@/lib/adjustments';
 
 // Типы инструментов
-export type Tool = 'hand' | 'eyedropper' | 'curves' | 'filter';
+export type Tool = 'hand' | 'eyedropper' | 'curves' | 'filter' | 'move';
 
 // Тип для координат
 export interface Coordinates {
@@ -33,6 +38,22 @@ export interface Layer {
   imageData: ImageData | null;
   imageUrl: string | null;
   isBackground?: boolean;
+  // Группа слоев: не содержит пикселей, вложенные слои ссылаются на нее через parentId
+  isGroup?: boolean;
+  // Группа, в которую вложен слой; у слоев верхнего уровня не задана
+  parentId?: string;
+  // Содержимое группы скрыто в панели слоев
+  collapsed?: boolean;
+  // Группа с пропуском: вложенные слои смешиваются прямо с нижележащими,
+  // собственный режим наложения группы не применяется
+  passThrough?: boolean;
+  // Маска непрозрачности слоя
+  mask?: LayerMask;
+  // Смещение левого верхнего угла слоя в документе; размер слоя — размер imageData
+  x?: number;
+  y?: number;
+  // Корректирующий слой: хранит параметры коррекции вместо пикселей
+  adjustment?: Adjustment;
 }
 
 // Тип альфа-канала
@@ -64,20 +85,46 @@ interface EditorContextType {
   // Контраст между выбранными цветами
   getColorContrast: () => { value: number; isSufficient: boolean } | null;
   
+  // Размер документа: задается первым слоем с пикселями или открытым файлом
+  // и меняется только изменением размера, а не порядком слоев
+  documentSize: DocumentSize | null;
+  setDocumentSize: (size: DocumentSize) => void;
+  
   // Слои
   layers: Layer[];
   activeLayerId: string | null;
   setActiveLayer: (layerId: string) => void;
   addLayer: (layer: Omit<Layer, 'id'>) => void;
+  replaceLayers: (layers: Omit<Layer, 'id'>[], documentSize: DocumentSize, activeIndex?: number) => void;
   updateLayer: (layerId: string, updates: Partial<Layer>) => void;
   deleteLayer: (layerId: string) => void;
-  moveLayer: (layerId: string, direction: 'up' | 'down') => void;
+  // Перемещает слой на позицию index в стеке (0 — нижний слой) и в группу parentId;
+  // фоновый слой всегда остается нижним
+  moveLayer: (layerId: string, index: number, parentId?: string) => void;
+  // Сдвигает слой в документе; группа сдвигается вместе с вложенными слоями
+  offsetLayer: (layerId: string, dx: number, dy: number) => void;
   
   // Альфа-каналы
   alphaChannels: AlphaChannel[];
   addAlphaChannel: (channel: Omit<AlphaChannel, 'id'>) => void;
   updateAlphaChannel: (channelId: string, updates: Partial<AlphaChannel>) => void;
   deleteAlphaChannel: (channelId: string) => void;
+  
+  // Свойства документа
+  documentProperties: DocumentProperties;
+  setDocumentProperties: (properties: DocumentProperties) => void;
+  
+  // Восстановление сохраненного сеанса (открытие проекта)
+  restoreSession: (session: EditorSession) => void;
+}
+
+// Сохраняемая часть состояния редактора
+export interface EditorSession {
+  documentSize: DocumentSize | null;
+  layers: Layer[];
+  activeLayerId: string | null;
+  alphaChannels: AlphaChannel[];
+  documentProperties: DocumentProperties;
 }
 
 // Создаем контекст
@@ -95,13 +142,17 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   const [primaryColor, setPrimaryColor] = useState<ColorInfo | null>(null);
   const [secondaryColor, setSecondaryColor] = useState<ColorInfo | null>(null);
   
-  // Состояние слоев
+  // Состояние документа и слоев
+  const [documentSize, setDocumentSize] = useState<DocumentSize | null>(null);
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
   
   // Состояние альфа-каналов
   const [alphaChannels, setAlphaChannels] = useState<AlphaChannel[]>([]);
   
+  // Состояние свойств документа
+  const [documentProperties, setDocumentProperties] = useState<DocumentProperties>({});
+  
   // Функция для получения контраста между выбранными цветами
   const getColorContrast = () => {
     if (!primaryColor || !secondaryColor) return null;
@@ -118,13 +169,35 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     setActiveLayerId(layerId);
   };
   
+  const createLayerId = () => `layer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  
   const addLayer = (layer: Omit<Layer, 'id'>) => {
     const newLayer: Layer = {
       ...layer,
-      id: `layer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      id: createLayerId()
     };
     setLayers(prev => [...prev, newLayer]);
     setActiveLayerId(newLayer.id);
+    // Первый слой с пикселями задает размер нового документа
+    const { imageData } = layer;
+    if (imageData) {
+      setDocumentSize(prev => prev ?? { width: imageData.width, height: imageData.height });
+    }
+  };
+  
+  // Заменяет весь стек слоев (например, при открытии многослойного файла)
+  const replaceLayers = (
+    nextLayers: Omit<Layer, 'id'>[],
+    nextDocumentSize: DocumentSize,
+    activeIndex: number = nextLayers.length - 1
+  ) => {
+    const newLayers: Layer[] = nextLayers.map(layer => ({
+      ...layer,
+      id: createLayerId()
+    }));
+    setLayers(newLayers);
+    setDocumentSize(nextDocumentSize);
+    setActiveLayerId(newLayers[activeIndex]?.id ?? null);
   };
   
   const updateLayer = (layerId: string, updates: Partial<Layer>) => {
@@ -133,32 +206,62 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     ));
   };
   
+  // Группа удаляется вместе со всеми вложенными слоями
   const deleteLayer = (layerId: string) => {
     setLayers(prev => {
-      const filtered = prev.filter(layer => layer.id !== layerId);
+      const removed = getDescendantIds(prev, layerId).add(layerId);
+      const filtered = prev.filter(layer => !removed.has(layer.id));
       // Если удаляем активный слой, выбираем другой
-      if (layerId === activeLayerId) {
+      if (activeLayerId && removed.has(activeLayerId)) {
         const newActiveLayer = filtered.length > 0 ? filtered[filtered.length - 1] : null;
         setActiveLayerId(newActiveLayer?.id || null);
       }
+      // Без слоев документ закрывается, следующий слой начнет новый
+      if (filtered.length === 0) {
+        setDocumentSize(null);
+      }
       return filtered;
     });
   };
   
-  const moveLayer = (layerId: string, direction: 'up' | 'down') => {
+  const moveLayer = (layerId: string, index: number, parentId?: string) => {
     setLayers(prev => {
-      const index = prev.findIndex(layer => layer.id === layerId);
-      if (index === -1) return prev;
+      const currentIndex = prev.findIndex(layer => layer.id === layerId);
+      if (currentIndex === -1 || prev[currentIndex].isBackground) return prev;
       
-      const newIndex = direction === 'up' ? index + 1 : index - 1;
-      if (newIndex < 0 || newIndex >= prev.length) return prev;
+      // Группу нельзя вложить в саму себя или в собственную подгруппу
+      if (parentId && (parentId === layerId || getDescendantIds(prev, layerId).has(parentId))) return prev;
+      
+      // Под фоновый слой ничего не перемещается
+      const minIndex = prev[0]?.isBackground ? 1 : 0;
+      const newIndex = Math.max(minIndex, Math.min(prev.length - 1, index));
+      if (newIndex === currentIndex && prev[currentIndex].parentId === parentId) return prev;
       
       const newLayers = [...prev];
-      [newLayers[index], newLayers[newIndex]] = [newLayers[newIndex], newLayers[index]];
+      const [layer] = newLayers.splice(currentIndex, 1);
+      newLayers.splice(newIndex, 0, { ...layer, parentId });
       return newLayers;
     });
   };
   
+  const offsetLayer = (layerId: string, dx: number, dy: number) => {
+    if (dx === 0 && dy === 0) return;
+    setLayers(prev => {
+      const moved = getDescendantIds(prev, layerId).add(layerId);
+      return prev.map(layer =>
+        moved.has(layer.id) ? { ...layer, ...getLayerMoveUpdates(layer, dx, dy) } : layer
+      );
+    });
+  };
+  
+  const restoreSession = (session: EditorSession) => {
+    setDocumentSize(session.documentSize);
+    setLayers(session.layers);
+    setActiveLayerId(session.activeLayerId);
+    setAlphaChannels(session.alphaChannels);
+    setDocumentProperties(session.documentProperties);
+  };
+  
   // Функции для работы с альфа-каналами
   const addAlphaChannel = (channel: Omit<AlphaChannel, 'id'>) => {
     const newChannel: AlphaChannel = {
@@ -188,17 +291,24 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     secondaryColor,
     setSecondaryColor,
     getColorContrast,
+    documentSize,
+    setDocumentSize,
     layers,
     activeLayerId,
     setActiveLayer,
     addLayer,
+    replaceLayers,
     updateLayer,
     deleteLayer,
     moveLayer,
+    offsetLayer,
     alphaChannels,
     addAlphaChannel,
     updateAlphaChannel,
-    deleteAlphaChannel
+    deleteAlphaChannel,
+    documentProperties,
+    setDocumentProperties,
+    restoreSession
   };
   
   return (
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { applyAdjustment, createDefaultAdjustment, describeAdjustment, type AdjustmentType } from './adjustments';
+
+// Изображение 2×1 из заданных пикселей
+const createImage = (...pixels: number[][]) => new ImageData(new Uint8ClampedArray(pixels.flat()), pixels.length, 1);
+
+const pixelsOf = (image: ImageData) => [Array.from(image.data.subarray(0, 4)), Array.from(image.data.subarray(4, 8))];
+
+describe('applyAdjustment', () => {
+  it('параметры по умолчанию кривых, уровней и тона не меняют изображение', () => {
+    const image = createImage([10, 120, 240, 255], [200, 50, 90, 128]);
+    for (const type of ['curves', 'levels', 'hueSaturation'] as AdjustmentType[]) {
+      expect(pixelsOf(applyAdjustment(image, createDefaultAdjustment(type)))).toEqual(pixelsOf(image));
+    }
+  });
+
+  it('инвертирует цвета и сохраняет прозрачность', () => {
+    const image = createImage([0, 100, 255, 128], [10, 20, 30, 255]);
+    expect(pixelsOf(applyAdjustment(image, { type: 'invert' }))).toEqual([[255, 155, 0, 128], [245, 235, 225, 255]]);
+    // Исходное изображение не изменяется
+    expect(image.data[0]).toBe(0);
+  });
+
+  it('порог делит пиксели по яркости', () => {
+    const image = createImage([200, 200, 200, 255], [255, 0, 0, 255]);
+    expect(pixelsOf(applyAdjustment(image, { type: 'threshold', level: 128 }))).toEqual([[255, 255, 255, 255], [0, 0, 0, 255]]);
+  });
+
+  it('уровни растягивают входной диапазон', () => {
+    const levels = { type: 'levels' as const, inputBlack: 50, inputWhite: 150, gamma: 1, outputBlack: 0, outputWhite: 255 };
+    expect(pixelsOf(applyAdjustment(createImage([50, 100, 200, 255], [0, 0, 0, 0]), levels))[0]).toEqual([0, 128, 255, 255]);
+  });
+
+  it('сдвигает цветовой тон и убирает насыщенность', () => {
+    const image = createImage([255, 0, 0, 255], [0, 0, 255, 255]);
+    expect(pixelsOf(applyAdjustment(image, { type: 'hueSaturation', hue: 120, saturation: 0, lightness: 0 })))
+      .toEqual([[0, 255, 0, 255], [255, 0, 0, 255]]);
+    expect(pixelsOf(applyAdjustment(image, { type: 'hueSaturation', hue: 0, saturation: -100, lightness: 0 }))[0])
+      .toEqual([128, 128, 128, 255]);
+  });
+});
+
+describe('describeAdjustment', () => {
+  it('показывает параметры коррекции', () => {
+    expect(describeAdjustment({ type: 'threshold', level: 90 })).toBe('Порог: 90');
+    expect(describeAdjustment({ type: 'invert' })).toBe('Инверсия');
+  });
+});
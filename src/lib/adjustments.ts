@@ -0,0 +1,202 @@
+// Корректирующие слои: хранят параметры коррекции вместо пикселей
+// и применяются при сведении ко всему, что лежит под ними
+
+import { applyLookupTable, createLookupTable, type CurvePoint } from './histogram';
+
+export interface CurvesAdjustment {
+  type: 'curves';
+  point1: CurvePoint;
+  point2: CurvePoint;
+}
+
+export interface LevelsAdjustment {
+  type: 'levels';
+  // Входной диапазон: тени и света (0–255)
+  inputBlack: number;
+  inputWhite: number;
+  // Гамма средних тонов (0.1–9.99)
+  gamma: number;
+  // Выходной диапазон (0–255)
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export interface HueSaturationAdjustment {
+  type: 'hueSaturation';
+  // Сдвиг цветового тона в градусах (−180…180)
+  hue: number;
+  // Насыщенность и яркость в процентах (−100…100)
+  saturation: number;
+  lightness: number;
+}
+
+export interface InvertAdjustment {
+  type: 'invert';
+}
+
+export interface ThresholdAdjustment {
+  type: 'threshold';
+  // Пиксели с яркостью не ниже порога становятся белыми (0–255)
+  level: number;
+}
+
+export type Adjustment =
+  | CurvesAdjustment
+  | LevelsAdjustment
+  | HueSaturationAdjustment
+  | InvertAdjustment
+  | ThresholdAdjustment;
+
+export type AdjustmentType = Adjustment['type'];
+
+export const ADJUSTMENT_LABELS: Record<AdjustmentType, string> = {
+  curves: 'Кривые',
+  levels: 'Уровни',
+  hueSaturation: 'Цветовой тон/Насыщенность',
+  invert: 'Инверсия',
+  threshold: 'Порог'
+};
+
+/**
+ * Коррекция с параметрами по умолчанию, не меняющими изображение
+ * (инверсия и порог меняют его всегда)
+ */
+export function createDefaultAdjustment(type: AdjustmentType): Adjustment {
+  switch (type) {
+    case 'curves':
+      return { type, point1: { input: 0, output: 0 }, point2: { input: 255, output: 255 } };
+    case 'levels':
+      return { type, inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+    case 'hueSaturation':
+      return { type, hue: 0, saturation: 0, lightness: 0 };
+    case 'invert':
+      return { type };
+    case 'threshold':
+      return { type, level: 128 };
+  }
+}
+
+/**
+ * Краткое описание коррекции с параметрами
+ */
+export function describeAdjustment(adjustment: Adjustment): string {
+  const label = ADJUSTMENT_LABELS[adjustment.type];
+
+  switch (adjustment.type) {
+    case 'curves':
+      return `${label}: (${adjustment.point1.input}, ${adjustment.point1.output}) – (${adjustment.point2.input}, ${adjustment.point2.output})`;
+    case 'levels':
+      return `${label}: ${adjustment.inputBlack}–${adjustment.inputWhite}, γ ${adjustment.gamma}`;
+    case 'hueSaturation':
+      return `${label}: ${adjustment.hue}°, ${adjustment.saturation}%, ${adjustment.lightness}%`;
+    case 'invert':
+      return label;
+    case 'threshold':
+      return `${label}: ${adjustment.level}`;
+  }
+}
+
+// Таблица уровней: входной диапазон растягивается на выходной с гамма-коррекцией
+function createLevelsLookupTable(adjustment: LevelsAdjustment): Uint8Array {
+  const lut = new Uint8Array(256);
+  const range = Math.max(1, adjustment.inputWhite - adjustment.inputBlack);
+
+  for (let i = 0; i < 256; i++) {
+    const normalized = Math.max(0, Math.min(1, (i - adjustment.inputBlack) / range));
+    const corrected = Math.pow(normalized, 1 / adjustment.gamma);
+    lut[i] = Math.round(adjustment.outputBlack + corrected * (adjustment.outputWhite - adjustment.outputBlack));
+  }
+
+  return lut;
+}
+
+// Преобразование RGB (0–1) в HSL: тон 0–1, насыщенность и яркость 0–1
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max === min) return [0, 0, lightness];
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue: number;
+  if (max === r) {
+    hue = (g - b) / delta + (g < b ? 6 : 0);
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+
+  return [hue / 6, saturation, lightness];
+}
+
+function hueToChannel(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  if (saturation === 0) return [lightness, lightness, lightness];
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  return [hueToChannel(p, q, hue + 1 / 3), hueToChannel(p, q, hue), hueToChannel(p, q, hue - 1 / 3)];
+}
+
+function applyHueSaturation(imageData: ImageData, adjustment: HueSaturationAdjustment): ImageData {
+  const data = new Uint8ClampedArray(imageData.data);
+  const hueShift = adjustment.hue / 360;
+  const saturationScale = 1 + adjustment.saturation / 100;
+  const lightnessShift = adjustment.lightness / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const [h, s, l] = rgbToHsl(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+    const hue = (h + hueShift + 1) % 1;
+    const saturation = Math.min(1, s * saturationScale);
+    // Положительная яркость приближает к белому, отрицательная — к черному
+    const lightness = lightnessShift >= 0 ? l + (1 - l) * lightnessShift : l * (1 + lightnessShift);
+    const [r, g, b] = hslToRgb(hue, saturation, lightness);
+    data[i] = Math.round(r * 255);
+    data[i + 1] = Math.round(g * 255);
+    data[i + 2] = Math.round(b * 255);
+  }
+
+  return new ImageData(data, imageData.width, imageData.height);
+}
+
+/**
+ * Применяет коррекцию к цветовым каналам изображения; прозрачность не меняется
+ * @param imageData Исходное изображение (не изменяется)
+ * @returns Новое изображение
+ */
+export function applyAdjustment(imageData: ImageData, adjustment: Adjustment): ImageData {
+  switch (adjustment.type) {
+    case 'curves': {
+      const lut = createLookupTable(adjustment.point1, adjustment.point2);
+      return applyLookupTable(imageData, lut, lut, lut);
+    }
+    case 'levels': {
+      const lut = createLevelsLookupTable(adjustment);
+      return applyLookupTable(imageData, lut, lut, lut);
+    }
+    case 'hueSaturation':
+      return applyHueSaturation(imageData, adjustment);
+    case 'invert': {
+      const lut = new Uint8Array(256).map((_, i) => 255 - i);
+      return applyLookupTable(imageData, lut, lut, lut);
+    }
+    case 'threshold': {
+      const data = new Uint8ClampedArray(imageData.data);
+      for (let i = 0; i < data.length; i += 4) {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        data.fill(luminance >= adjustment.level ? 255 : 0, i, i + 3);
+      }
+      return new ImageData(data, imageData.width, imageData.height);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBatchSteps,
+  BATCH_RECIPE_FORMAT,
+  describeBatchStep,
+  parseBatchRecipe,
+  serializeBatchRecipe,
+  type BatchRecipe
+} from './batch';
+
+// Непрозрачное серое изображение
+const createImage = (width: number, height: number, value = 100) =>
+  new ImageData(new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 ? 255 : value)), width, height);
+
+const recipe: BatchRecipe = {
+  steps: [
+    { type: 'resize', width: 4, height: 4, keepAspectRatio: true, method: 'nearest' },
+    { type: 'curves', point1: { input: 0, output: 255 }, point2: { input: 255, output: 0 } },
+    { type: 'median', kernelSize: 3 }
+  ],
+  format: 'jpg',
+  quality: 0.8
+};
+
+describe('applyBatchSteps', () => {
+  it('выполняет шаги по порядку', () => {
+    const result = applyBatchSteps(createImage(8, 4), recipe.steps);
+
+    // Вписано в 4×4 с сохранением пропорций 2:1
+    expect(result.width).toBe(4);
+    expect(result.height).toBe(2);
+    // Кривая инвертирует яркость, медиана однородного изображения её не меняет
+    expect(result.data[0]).toBe(155);
+    expect(result.data[3]).toBe(255);
+  });
+
+  it('без шагов возвращает исходное изображение', () => {
+    const image = createImage(2, 2);
+    expect(applyBatchSteps(image, [])).toBe(image);
+  });
+
+  it('растягивает до точного размера без сохранения пропорций', () => {
+    const result = applyBatchSteps(createImage(8, 4), [
+      { type: 'resize', width: 3, height: 5, keepAspectRatio: false, method: 'bilinear' }
+    ]);
+    expect([result.width, result.height]).toEqual([3, 5]);
+  });
+});
+
+describe('describeBatchStep', () => {
+  it('показывает параметры шага', () => {
+    expect(describeBatchStep(recipe.steps[0])).toBe('Изменение размера: вписать в 4×4');
+    expect(describeBatchStep({ type: 'gaussian', sigma: 2 })).toBe('Размытие по Гауссу: σ = 2');
+  });
+});
+
+describe('рецепт', () => {
+  it('сохраняется и читается без потерь', () => {
+    expect(parseBatchRecipe(serializeBatchRecipe(recipe))).toEqual(recipe);
+  });
+
+  it('отклоняет чужой или повреждённый файл', () => {
+    expect(() => parseBatchRecipe('{')).toThrow('повреждён');
+    expect(() => parseBatchRecipe('{"steps": []}')).toThrow('не является рецептом');
+    expect(() => parseBatchRecipe(JSON.stringify({ format: BATCH_RECIPE_FORMAT, version: 99, recipe })))
+      .toThrow('версия');
+  });
+
+  it('отклоняет некорректные шаги и формат', () => {
+    const wrap = (value: unknown) => JSON.stringify({ format: BATCH_RECIPE_FORMAT, version: 1, recipe: value });
+
+    expect(() => parseBatchRecipe(wrap({ ...recipe, steps: [{ type: 'median', kernelSize: 4 }] }))).toThrow('шаги');
+    const kernelStep = (kernel: unknown) => wrap({ ...recipe, steps: [{ type: 'kernel', name: 'Ядро', kernel }] });
+    const matrix = [[0, 0, 0], [0, 1, 0], [0, 0, 0]];
+    expect(parseBatchRecipe(kernelStep({ matrix, divisor: 2, offset: 10 })).steps).toHaveLength(1);
+    expect(() => parseBatchRecipe(kernelStep({ matrix: [] }))).toThrow('шаги');
+    expect(() => parseBatchRecipe(kernelStep({ matrix: [...matrix, [0, 0, 0]] }))).toThrow('шаги');
+    expect(() => parseBatchRecipe(kernelStep({ matrix, divisor: 0 }))).toThrow('шаги');
+    expect(() => parseBatchRecipe(kernelStep({ matrix, offset: '1' }))).toThrow('шаги');
+    expect(() => parseBatchRecipe(wrap({ ...recipe, steps: [{ type: 'sharpen' }] }))).toThrow('шаги');
+    expect(() => parseBatchRecipe(wrap({ ...recipe, format: 'exe' }))).toThrow('формат');
+  });
+});
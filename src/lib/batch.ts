@@ -0,0 +1,263 @@
+// Пакетная обработка: рецепт из последовательности операций редактора,
+// применяемый к каждому файлу, с выгрузкой результатов одним ZIP-архивом
+
+import { resizeImage } from './interpolation';
+import { applyLookupTable, createLookupTable, type CurvePoint } from './histogram';
+import { applyGaussianBlur, applyKernelFilter, applyMedianFilter, type Kernel } from './filters';
+import { encodeImage, EXPORT_EXTENSIONS, type ExportFormat, type ExportOptions } from './exportImage';
+import { loadImageFile } from './imageLoader';
+import { createZip, type ZipEntry } from './zip';
+
+export const BATCH_RECIPE_EXTENSION = '.recipe.json';
+export const BATCH_RECIPE_FORMAT = 'photoshop-zhar-batch-recipe';
+export const BATCH_RECIPE_VERSION = 1;
+
+export interface ResizeStep {
+  type: 'resize';
+  width: number;
+  height: number;
+  // Вписать в прямоугольник width × height с сохранением пропорций
+  keepAspectRatio: boolean;
+  method: 'nearest' | 'bilinear';
+}
+
+export interface CurvesStep {
+  type: 'curves';
+  point1: CurvePoint;
+  point2: CurvePoint;
+}
+
+export interface KernelStep {
+  type: 'kernel';
+  // Название ядра для списка шагов
+  name: string;
+  kernel: Kernel;
+}
+
+export interface GaussianStep {
+  type: 'gaussian';
+  sigma: number;
+}
+
+export interface MedianStep {
+  type: 'median';
+  kernelSize: number;
+}
+
+export type BatchStep = ResizeStep | CurvesStep | KernelStep | GaussianStep | MedianStep;
+
+export type BatchStepType = BatchStep['type'];
+
+export const BATCH_STEP_LABELS: Record<BatchStepType, string> = {
+  resize: 'Изменение размера',
+  curves: 'Кривые',
+  kernel: 'Фильтр с ядром',
+  gaussian: 'Размытие по Гауссу',
+  median: 'Медианный фильтр'
+};
+
+export interface BatchRecipe {
+  steps: BatchStep[];
+  format: ExportFormat;
+  // Качество форматов с потерями (0–1)
+  quality?: number;
+}
+
+export interface BatchFailure {
+  name: string;
+  reason: string;
+}
+
+export interface BatchResult {
+  // ZIP-архив с результатами; null, если ни один файл не обработан
+  archive: Uint8Array | null;
+  processed: number;
+  failures: BatchFailure[];
+}
+
+/**
+ * Краткое описание шага с параметрами для списка рецепта
+ */
+export function describeBatchStep(step: BatchStep): string {
+  const label = BATCH_STEP_LABELS[step.type];
+
+  switch (step.type) {
+    case 'resize':
+      return `${label}: ${step.keepAspectRatio ? 'вписать в ' : ''}${step.width}×${step.height}`;
+    case 'curves':
+      return `${label}: (${step.point1.input}, ${step.point1.output}) – (${step.point2.input}, ${step.point2.output})`;
+    case 'kernel':
+      return `${label}: ${step.name}`;
+    case 'gaussian':
+      return `${label}: σ = ${step.sigma}`;
+    case 'median':
+      return `${label}: ${step.kernelSize}×${step.kernelSize}`;
+  }
+}
+
+/**
+ * Применяет один шаг рецепта к изображению
+ */
+export function applyBatchStep(imageData: ImageData, step: BatchStep): ImageData {
+  switch (step.type) {
+    case 'resize': {
+      let { width, height } = step;
+      if (step.keepAspectRatio) {
+        const scale = Math.min(step.width / imageData.width, step.height / imageData.height);
+        width = Math.max(1, Math.round(imageData.width * scale));
+        height = Math.max(1, Math.round(imageData.height * scale));
+      }
+      return resizeImage(imageData, imageData.width, imageData.height, width, height, step.method);
+    }
+    case 'curves': {
+      const lut = createLookupTable(step.point1, step.point2);
+      return applyLookupTable(imageData, lut, lut, lut);
+    }
+    case 'kernel':
+      return applyKernelFilter(imageData, step.kernel);
+    case 'gaussian':
+      return applyGaussianBlur(imageData, step.sigma);
+    case 'median':
+      return applyMedianFilter(imageData, step.kernelSize);
+  }
+}
+
+/**
+ * Применяет шаги рецепта по порядку
+ */
+export function applyBatchSteps(imageData: ImageData, steps: BatchStep[]): ImageData {
+  return steps.reduce(applyBatchStep, imageData);
+}
+
+// Имя файла в архиве: исходное имя с расширением выходного формата, без повторов
+function createEntryName(fileName: string, format: ExportFormat, used: Set<string>): string {
+  const base = fileName.replace(/\.[^./]+$/, '') || 'image';
+  const extension = EXPORT_EXTENSIONS[format];
+  let name = `${base}${extension}`;
+
+  for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+    name = `${base} (${copy})${extension}`;
+  }
+
+  used.add(name.toLowerCase());
+  return name;
+}
+
+// Отдаёт управление браузеру, чтобы интерфейс успел показать прогресс
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Обрабатывает файлы по рецепту и упаковывает результаты в ZIP
+ * @param files Исходные изображения
+ * @param recipe Шаги обработки и формат результата
+ * @param onProgress Вызывается после каждого файла с числом обработанных файлов
+ * @returns Архив, число успешно обработанных файлов и список ошибок
+ */
+export async function runBatch(
+  files: File[],
+  recipe: BatchRecipe,
+  onProgress?: (completed: number, total: number) => void
+): Promise<BatchResult> {
+  const entries: ZipEntry[] = [];
+  const failures: BatchFailure[] = [];
+  const usedNames = new Set<string>();
+  const options: ExportOptions = { quality: recipe.quality };
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+
+    try {
+      const { imageData, url } = await loadImageFile(file);
+      URL.revokeObjectURL(url);
+      const result = applyBatchSteps(imageData, recipe.steps);
+      const blob = await encodeImage(result, recipe.format, options);
+      entries.push({
+        name: createEntryName(file.name, recipe.format, usedNames),
+        data: new Uint8Array(await blob.arrayBuffer())
+      });
+    } catch (error) {
+      failures.push({ name: file.name, reason: error instanceof Error ? error.message : 'неизвестная ошибка' });
+    }
+
+    onProgress?.(i + 1, files.length);
+    await yieldToBrowser();
+  }
+
+  return {
+    archive: entries.length > 0 ? createZip(entries) : null,
+    processed: entries.length,
+    failures
+  };
+}
+
+/**
+ * Сериализует рецепт в JSON для сохранения в файл
+ */
+export function serializeBatchRecipe(recipe: BatchRecipe): string {
+  return JSON.stringify({ format: BATCH_RECIPE_FORMAT, version: BATCH_RECIPE_VERSION, recipe }, null, 2);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCurvePoint = (value: unknown): value is CurvePoint =>
+  typeof value === 'object' && value !== null && isNumber((value as CurvePoint).input) && isNumber((value as CurvePoint).output);
+
+function isBatchStep(value: unknown): value is BatchStep {
+  if (typeof value !== 'object' || value === null) return false;
+  const step = value as Record<string, unknown>;
+
+  switch (step.type) {
+    case 'resize':
+      return isNumber(step.width) && step.width >= 1 && isNumber(step.height) && step.height >= 1
+        && typeof step.keepAspectRatio === 'boolean' && (step.method === 'nearest' || step.method === 'bilinear');
+    case 'curves':
+      return isCurvePoint(step.point1) && isCurvePoint(step.point2);
+    case 'kernel': {
+      // Фильтр поддерживает только ядра 3×3; делитель и смещение необязательны
+      const kernel = step.kernel as Kernel | undefined;
+      return typeof step.name === 'string' && Array.isArray(kernel?.matrix) && kernel.matrix.length === 3
+        && kernel.matrix.every(row => Array.isArray(row) && row.length === 3 && row.every(isNumber))
+        && (kernel.divisor === undefined || (isNumber(kernel.divisor) && kernel.divisor !== 0))
+        && (kernel.offset === undefined || isNumber(kernel.offset));
+    }
+    case 'gaussian':
+      return isNumber(step.sigma) && step.sigma > 0;
+    case 'median':
+      return isNumber(step.kernelSize) && step.kernelSize >= 3 && step.kernelSize % 2 === 1;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Читает рецепт из JSON и проверяет его структуру
+ */
+export function parseBatchRecipe(text: string): BatchRecipe {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Файл рецепта повреждён');
+  }
+
+  const file = parsed as { format?: unknown; version?: unknown; recipe?: Partial<BatchRecipe> } | null;
+  if (file?.format !== BATCH_RECIPE_FORMAT) {
+    throw new Error('Файл не является рецептом пакетной обработки');
+  }
+  if (file.version !== BATCH_RECIPE_VERSION) {
+    throw new Error(`Неподдерживаемая версия рецепта: ${String(file.version)}`);
+  }
+
+  const recipe = file.recipe;
+  if (!recipe || !Array.isArray(recipe.steps) || !recipe.steps.every(isBatchStep)) {
+    throw new Error('Рецепт содержит некорректные шаги');
+  }
+  if (typeof recipe.format !== 'string' || !Object.prototype.hasOwnProperty.call(EXPORT_EXTENSIONS, recipe.format)) {
+    throw new Error('Рецепт содержит неизвестный формат результата');
+  }
+
+  return {
+    steps: recipe.steps,
+    format: recipe.format,
+    quality: isNumber(recipe.quality) ? recipe.quality : undefined
+  };
+}
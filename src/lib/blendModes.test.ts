@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { blendColors, blendLayers, flattenLayerGroups } from './blendModes';
+import type { BlendMode } from '@/context/EditorContext';
+import { createLayerMask } from './layerMask';
+
+type Pixel = [number, number, number, number];
+
+// Слой из одного цвета
+const createLayer = (color: Pixel, blendMode: BlendMode = 'normal', opacity = 100, width = 2, height = 2) => ({
+  imageData: new ImageData(new Uint8ClampedArray(width * height * 4).map((_, i) => color[i % 4]), width, height),
+  blendMode,
+  opacity,
+  visible: true
+});
+
+describe('blendColors', () => {
+  it('умножение затемняет, экран осветляет', () => {
+    expect(blendColors([128, 128, 128, 255], [128, 255, 0, 255], 'multiply', 1)).toEqual([64, 128, 0, 255]);
+    expect(blendColors([128, 128, 128, 255], [128, 255, 0, 255], 'screen', 1)).toEqual([192, 255, 128, 255]);
+  });
+
+  it('учитывает непрозрачность верхнего цвета', () => {
+    expect(blendColors([0, 0, 0, 255], [255, 255, 255, 255], 'normal', 0.5)).toEqual([128, 128, 128, 255]);
+  });
+});
+
+describe('blendLayers', () => {
+  it('накладывает любое число слоев по порядку', () => {
+    const colors: Pixel[] = [[200, 100, 50, 255], [128, 128, 128, 255], [255, 0, 0, 128], [10, 20, 30, 255]];
+    const modes: BlendMode[] = ['normal', 'multiply', 'screen', 'overlay'];
+    const layers = colors.map((color, i) => createLayer(color, modes[i], 60 + i * 10));
+
+    // Результат совпадает с последовательным смешиванием отдельных цветов
+    let expected: Pixel = [colors[0][0], colors[0][1], colors[0][2], Math.round(255 * 0.6)];
+    for (let i = 1; i < colors.length; i++) {
+      expected = blendColors(expected, colors[i], modes[i], (60 + i * 10) / 100);
+    }
+
+    const result = blendLayers(layers, 2, 2);
+    expect(Array.from(result.data.subarray(12, 16))).toEqual(expected);
+  });
+
+  it('пропускает скрытые слои и не выходит за границы меньших слоев', () => {
+    const hidden = { ...createLayer([0, 0, 0, 255]), visible: false };
+    const small = createLayer([0, 255, 0, 255], 'normal', 100, 1, 1);
+    const result = blendLayers([createLayer([255, 0, 0, 255]), hidden, small], 2, 2);
+
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([0, 255, 0, 255]);
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('накладывает слой со смещением и обрезает его по документу', () => {
+    const shifted = { ...createLayer([0, 255, 0, 255]), x: 1, y: -1 };
+    const result = blendLayers([createLayer([255, 0, 0, 255]), shifted], 2, 2);
+
+    // Виден только левый нижний пиксель слоя, попавший в правый верхний угол документа
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([0, 255, 0, 255]);
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(result.data.subarray(12, 16))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('без видимых слоев возвращает прозрачное изображение', () => {
+    const result = blendLayers([{ ...createLayer([255, 255, 255, 255]), visible: false }], 2, 2);
+    expect(result.data.every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('группы слоев', () => {
+  const group = (id: string, options: { passThrough?: boolean; opacity?: number; blendMode?: BlendMode; visible?: boolean } = {}) => ({
+    id,
+    name: id,
+    imageData: null,
+    blendMode: options.blendMode ?? 'normal',
+    opacity: options.opacity ?? 100,
+    visible: options.visible ?? true,
+    isGroup: true,
+    passThrough: options.passThrough
+  });
+  const pixel = (result: ImageData) => Array.from(result.data.subarray(0, 4));
+
+  const background = () => ({ ...createLayer([128, 128, 128, 255]), id: 'background', name: 'Фон' });
+  const child = () => ({ ...createLayer([128, 255, 0, 255], 'multiply'), name: 'Слой', parentId: 'group' });
+
+  it('обычная группа смешивает слои отдельно от нижележащих', () => {
+    // Внутри группы умножать не на что: слой копируется, группа накладывается в обычном режиме
+    expect(pixel(blendLayers([background(), group('group'), child()], 2, 2))).toEqual([128, 255, 0, 255]);
+  });
+
+  it('группа с пропуском смешивает слои прямо с нижележащими', () => {
+    expect(pixel(blendLayers([background(), group('group', { passThrough: true }), child()], 2, 2)))
+      .toEqual([64, 128, 0, 255]);
+  });
+
+  it('непрозрачность группы с пропуском смешивает результат с нижележащими', () => {
+    expect(pixel(blendLayers([background(), group('group', { passThrough: true, opacity: 50 }), child()], 2, 2)))
+      .toEqual([96, 128, 64, 255]);
+  });
+
+  it('скрытая группа скрывает вложенные слои', () => {
+    expect(pixel(blendLayers([background(), group('group', { visible: false }), child()], 2, 2)))
+      .toEqual([128, 128, 128, 255]);
+  });
+
+  it('сводит обычные группы и раскрывает группы с пропуском при экспорте', () => {
+    const nested = { ...createLayer([0, 0, 255, 255]), name: 'Вложенный', opacity: 50, parentId: 'pass' };
+    const flat = flattenLayerGroups(
+      [background(), group('group', { opacity: 70, blendMode: 'screen' }), child(), group('pass', { passThrough: true, opacity: 50, visible: false }), nested],
+      2,
+      2
+    );
+
+    expect(flat.map(({ name, visible, opacity, blendMode }) => ({ name, visible, opacity, blendMode }))).toEqual([
+      { name: 'Фон', visible: true, opacity: 100, blendMode: 'normal' },
+      { name: 'group', visible: true, opacity: 70, blendMode: 'screen' },
+      { name: 'Вложенный', visible: false, opacity: 25, blendMode: 'normal' }
+    ]);
+    expect(pixel(flat[1].imageData)).toEqual([128, 255, 0, 255]);
+  });
+});
+
+describe('маски слоев', () => {
+  // Маска 2×2: скрыт только левый верхний пиксель
+  const mask = () => ({ ...createLayerMask(2, 2), data: new Uint8ClampedArray([0, 255, 255, 255]) });
+
+  it('скрывают пиксели слоя при сведении', () => {
+    const result = blendLayers([createLayer([255, 0, 0, 255]), { ...createLayer([0, 0, 255, 255]), mask: mask() }], 2, 2);
+
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('выключенная маска не влияет, инвертированная открывает скрытое', () => {
+    const bottom = createLayer([255, 0, 0, 255]);
+    const disabled = blendLayers([bottom, { ...createLayer([0, 0, 255, 255]), mask: { ...mask(), enabled: false } }], 2, 2);
+    const inverted = blendLayers([bottom, { ...createLayer([0, 0, 255, 255]), mask: { ...mask(), inverted: true } }], 2, 2);
+
+    expect(Array.from(disabled.data.subarray(0, 4))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(inverted.data.subarray(0, 4))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(inverted.data.subarray(4, 8))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('маска смещается вместе со слоем', () => {
+    const layer = { ...createLayer([0, 0, 255, 255]), x: 1, mask: { ...mask(), x: 1 } };
+    const result = blendLayers([createLayer([255, 0, 0, 255]), layer], 2, 2);
+
+    // Скрытый пиксель маски совпадает с левым верхним пикселем слоя
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(result.data.subarray(12, 16))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('маска корректирующего слоя ограничивает коррекцию', () => {
+    const invert = { imageData: null, blendMode: 'normal' as const, opacity: 100, visible: true, adjustment: { type: 'invert' as const }, mask: mask() };
+    const result = blendLayers([createLayer([255, 0, 0, 255]), invert], 2, 2);
+
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([0, 255, 255, 255]);
+  });
+
+  it('маска группы с пропуском ограничивает вложенные слои', () => {
+    const layers = [
+      createLayer([255, 0, 0, 255]),
+      { id: 'group', imageData: null, blendMode: 'normal' as const, opacity: 100, visible: true, isGroup: true, passThrough: true, mask: mask() },
+      { ...createLayer([0, 0, 255, 255]), parentId: 'group' }
+    ];
+    const result = blendLayers(layers, 2, 2);
+
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(result.data.subarray(4, 8))).toEqual([0, 0, 255, 255]);
+  });
+});
+
+describe('корректирующие слои', () => {
+  const invert = (options: { opacity?: number; parentId?: string } = {}) => ({
+    id: 'invert',
+    name: 'Инверсия',
+    imageData: null,
+    blendMode: 'normal' as const,
+    opacity: options.opacity ?? 100,
+    visible: true,
+    parentId: options.parentId,
+    adjustment: { type: 'invert' as const }
+  });
+  const pixel = (result: ImageData) => Array.from(result.data.subarray(0, 4));
+  const background = () => ({ ...createLayer([200, 100, 0, 255]), id: 'background', name: 'Фон' });
+
+  it('изменяют все слои под ними с учетом непрозрачности', () => {
+    expect(pixel(blendLayers([background(), invert()], 2, 2))).toEqual([55, 155, 255, 255]);
+    expect(pixel(blendLayers([background(), invert({ opacity: 50 })], 2, 2))).toEqual([128, 128, 128, 255]);
+  });
+
+  it('не влияют на слои над ними и на пустой документ', () => {
+    const top = { ...createLayer([10, 20, 30, 255]), id: 'top', name: 'Верх' };
+    expect(pixel(blendLayers([background(), invert(), top], 2, 2))).toEqual([10, 20, 30, 255]);
+    expect(pixel(blendLayers([invert()], 2, 2))[3]).toBe(0);
+  });
+
+  it('в обычной группе изменяют только слои группы', () => {
+    const group = { id: 'group', name: 'Группа', imageData: null, blendMode: 'normal' as const, opacity: 100, visible: true, isGroup: true };
+    const child = { ...createLayer([0, 0, 255, 128]), id: 'child', name: 'Слой', parentId: 'group' };
+    // Инверсия внутри группы не меняет фон, виднеющийся через полупрозрачный слой
+    const result = blendLayers([background(), group, child, invert({ parentId: 'group' })], 2, 2);
+    expect(pixel(result)).toEqual(pixel(blendLayers([background(), createLayer([255, 255, 0, 128])], 2, 2)));
+  });
+
+  it('при экспорте заменяются сведённым результатом', () => {
+    const hidden = { ...createLayer([0, 255, 0, 255]), id: 'hidden', name: 'Скрытый', visible: false };
+    const flat = flattenLayerGroups([background(), hidden, { ...invert(), visible: false }], 2, 2);
+
+    expect(flat.map(({ name, visible }) => ({ name, visible }))).toEqual([
+      { name: 'Фон', visible: true },
+      { name: 'Скрытый', visible: false },
+      { name: 'Инверсия', visible: false }
+    ]);
+    // Скрытые слои под коррекцией не попадают в результат, сама коррекция применяется
+    expect(pixel(flat[2].imageData)).toEqual([55, 155, 255, 255]);
+  });
+});
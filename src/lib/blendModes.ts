@@ -1,4 +1,54 @@
 import type { BlendMode } from '@/context/EditorContext';
+import { groupLayersByParent } from './layerTree';
+import { applyLayerMasks, getMaskValues, type LayerMask } from './layerMask';
+import { placeLayerImage } from './layerGeometry';
+import { applyAdjustment, type Adjustment } from './adjustments';
+
+// Результат режима наложения для одного канала в диапазоне 0-1
+function blendChannel(base: number, overlay: number, mode: BlendMode): number {
+  switch (mode) {
+    case 'multiply':
+      return base * overlay;
+    case 'screen':
+      return 1 - (1 - base) * (1 - overlay);
+    case 'overlay':
+      return base < 0.5
+        ? 2 * base * overlay
+        : 1 - 2 * (1 - base) * (1 - overlay);
+    default:
+      return overlay;
+  }
+}
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, value));
+
+/**
+ * Накладывает пиксель слоя на пиксель результата на месте
+ * @param target Данные результата (нижний слой)
+ * @param targetIndex Индекс пикселя в target
+ * @param source Данные накладываемого слоя
+ * @param sourceIndex Индекс пикселя в source
+ * @param mode Режим наложения
+ * @param opacity Непрозрачность верхнего слоя (0-1)
+ */
+function blendPixel(
+  target: Uint8ClampedArray,
+  targetIndex: number,
+  source: Uint8ClampedArray,
+  sourceIndex: number,
+  mode: BlendMode,
+  opacity: number
+): void {
+  const finalOpacity = (source[sourceIndex + 3] / 255) * opacity;
+
+  for (let c = 0; c < 3; c++) {
+    const base = target[targetIndex + c] / 255;
+    const result = blendChannel(base, source[sourceIndex + c] / 255, mode);
+    target[targetIndex + c] = clampByte(Math.round((result * finalOpacity + base * (1 - finalOpacity)) * 255));
+  }
+
+  target[targetIndex + 3] = clampByte(Math.round(Math.max(target[targetIndex + 3], source[sourceIndex + 3] * opacity)));
+}
 
 /**
  * Применяет режим наложения к двум цветам
@@ -14,156 +64,247 @@ export function blendColors(
   mode: BlendMode,
   opacity: number
 ): [number, number, number, number] {
-  const [br, bg, bb, ba] = base;
-  const [or, og, ob, oa] = overlay;
-  
-  // Нормализуем значения к диапазону 0-1
-  const baseR = br / 255;
-  const baseG = bg / 255;
-  const baseB = bb / 255;
-  const overlayR = or / 255;
-  const overlayG = og / 255;
-  const overlayB = ob / 255;
-  
-  let resultR: number, resultG: number, resultB: number;
-  
-  switch (mode) {
-    case 'normal':
-      resultR = overlayR;
-      resultG = overlayG;
-      resultB = overlayB;
-      break;
-      
-    case 'multiply':
-      resultR = baseR * overlayR;
-      resultG = baseG * overlayG;
-      resultB = baseB * overlayB;
-      break;
-      
-    case 'screen':
-      resultR = 1 - (1 - baseR) * (1 - overlayR);
-      resultG = 1 - (1 - baseG) * (1 - overlayG);
-      resultB = 1 - (1 - baseB) * (1 - overlayB);
-      break;
-      
-    case 'overlay':
-      resultR = baseR < 0.5 
-        ? 2 * baseR * overlayR 
-        : 1 - 2 * (1 - baseR) * (1 - overlayR);
-      resultG = baseG < 0.5 
-        ? 2 * baseG * overlayG 
-        : 1 - 2 * (1 - baseG) * (1 - overlayG);
-      resultB = baseB < 0.5 
-        ? 2 * baseB * overlayB 
-        : 1 - 2 * (1 - baseB) * (1 - overlayB);
-      break;
-      
-    default:
-      resultR = overlayR;
-      resultG = overlayG;
-      resultB = overlayB;
+  const target = new Uint8ClampedArray(base);
+  blendPixel(target, 0, new Uint8ClampedArray(overlay), 0, mode, opacity);
+  return [target[0], target[1], target[2], target[3]];
+}
+
+// Слой или группа для смешивания
+export interface BlendLayerInput {
+  id?: string;
+  imageData: ImageData | null;
+  blendMode: BlendMode;
+  opacity: number;
+  visible: boolean;
+  // Группа: смешивает вложенные слои (parentId === id группы)
+  isGroup?: boolean;
+  parentId?: string;
+  // Группа без собственного смешивания: вложенные слои накладываются прямо на нижележащие
+  passThrough?: boolean;
+  // Маска непрозрачности слоя или группы
+  mask?: LayerMask;
+  // Смещение слоя в документе; группы всегда совпадают с документом
+  x?: number;
+  y?: number;
+  // Корректирующий слой: вместо пикселей изменяет все, что под ним
+  adjustment?: Adjustment;
+}
+
+// Накладывает изображение на результат со смещением (offsetX, offsetY)
+function drawImage(
+  target: ImageData,
+  image: ImageData,
+  mode: BlendMode,
+  opacity: number,
+  offsetX: number = 0,
+  offsetY: number = 0
+): void {
+  const resultData = target.data;
+  const layerData = image.data;
+  const { width, height } = target;
+  // Пиксели за пределами слоя остаются без изменений
+  const left = Math.max(0, offsetX);
+  const right = Math.min(width, offsetX + image.width);
+  const top = Math.max(0, offsetY);
+  const bottom = Math.min(height, offsetY + image.height);
+
+  for (let y = top; y < bottom; y++) {
+    let resultIndex = (y * width + left) * 4;
+    let layerIndex = ((y - offsetY) * image.width + left - offsetX) * 4;
+
+    for (let x = left; x < right; x++, resultIndex += 4, layerIndex += 4) {
+      if (resultData[resultIndex + 3] === 0) {
+        // Под прозрачным пикселем слой копируется без смешивания
+        resultData[resultIndex] = layerData[layerIndex];
+        resultData[resultIndex + 1] = layerData[layerIndex + 1];
+        resultData[resultIndex + 2] = layerData[layerIndex + 2];
+        resultData[resultIndex + 3] = Math.round(layerData[layerIndex + 3] * opacity);
+      } else {
+        blendPixel(resultData, resultIndex, layerData, layerIndex, mode, opacity);
+      }
+    }
+  }
+}
+
+/**
+ * Применяет корректирующий слой к результату на месте
+ * Цвет скорректированного пикселя смешивается с исходным в режиме наложения слоя,
+ * непрозрачность и маска определяют долю коррекции; прозрачность не меняется
+ * @param target Результат сведения нижележащих слоев
+ * @param adjustment Параметры коррекции
+ * @param mode Режим наложения корректирующего слоя
+ * @param opacity Непрозрачность корректирующего слоя (0-1)
+ * @param mask Маска корректирующего слоя (совпадает с документом)
+ */
+export function drawAdjustment(
+  target: ImageData,
+  adjustment: Adjustment,
+  mode: BlendMode,
+  opacity: number,
+  mask?: LayerMask
+): void {
+  const data = target.data;
+  const adjusted = applyAdjustment(target, adjustment).data;
+  const maskValues = mask?.enabled ? getMaskValues(mask, target.width, target.height) : null;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const amount = maskValues ? opacity * maskValues[i >> 2] / 255 : opacity;
+    if (amount === 0) continue;
+
+    for (let c = 0; c < 3; c++) {
+      const base = data[i + c] / 255;
+      const result = blendChannel(base, adjusted[i + c] / 255, mode);
+      data[i + c] = clampByte(Math.round((base + (result - base) * amount) * 255));
+    }
+  }
+}
+
+// Накладывает слои одного уровня дерева снизу вверх
+function compositeStack(
+  target: ImageData,
+  children: Map<string | undefined, BlendLayerInput[]>,
+  parentId: string | undefined
+): void {
+  for (const layer of children.get(parentId) ?? []) {
+    if (!layer.visible || layer.opacity === 0) continue;
+    const opacity = layer.opacity / 100;
+
+    const masks = layer.mask ? [layer.mask] : [];
+
+    if (layer.adjustment) {
+      drawAdjustment(target, layer.adjustment, layer.blendMode, opacity, layer.mask);
+    } else if (!layer.isGroup) {
+      const x = layer.x ?? 0;
+      const y = layer.y ?? 0;
+      if (layer.imageData) drawImage(target, applyLayerMasks(layer.imageData, masks, x, y), layer.blendMode, opacity, x, y);
+    } else if (layer.passThrough) {
+      // Непрозрачность и маска такой группы смешивают результат с тем, что было под ней
+      const maskValues = layer.mask?.enabled ? getMaskValues(layer.mask, target.width, target.height) : null;
+      const backdrop = opacity < 1 || maskValues ? target.data.slice() : null;
+      compositeStack(target, children, layer.id);
+      if (backdrop) {
+        const data = target.data;
+        for (let i = 0; i < data.length; i++) {
+          const amount = maskValues ? opacity * maskValues[i >> 2] / 255 : opacity;
+          data[i] = Math.round(backdrop[i] + (data[i] - backdrop[i]) * amount);
+        }
+      }
+    } else {
+      // Обычная группа сначала сводится отдельно, затем накладывается как один слой
+      const group = new ImageData(target.width, target.height);
+      compositeStack(group, children, layer.id);
+      drawImage(target, applyLayerMasks(group, masks), layer.blendMode, opacity);
+    }
   }
-  
-  // Применяем непрозрачность
-  const finalOpacity = (oa / 255) * opacity;
-  const finalR = Math.round((resultR * finalOpacity + baseR * (1 - finalOpacity)) * 255);
-  const finalG = Math.round((resultG * finalOpacity + baseG * (1 - finalOpacity)) * 255);
-  const finalB = Math.round((resultB * finalOpacity + baseB * (1 - finalOpacity)) * 255);
-  const finalA = Math.round(Math.max(ba, oa * opacity));
-  
-  return [
-    Math.max(0, Math.min(255, finalR)),
-    Math.max(0, Math.min(255, finalG)),
-    Math.max(0, Math.min(255, finalB)),
-    Math.max(0, Math.min(255, finalA))
-  ];
 }
 
 /**
  * Смешивает несколько слоев в один результирующий ImageData
- * @param layers Массив слоев для смешивания (от нижнего к верхнему)
+ * @param layers Массив слоев и групп для смешивания (от нижнего к верхнему)
  * @param width Ширина результирующего изображения
  * @param height Высота результирующего изображения
  * @returns Результирующий ImageData
  */
-export function blendLayers(
-  layers: Array<{
-    imageData: ImageData;
-    blendMode: BlendMode;
-    opacity: number;
-    visible: boolean;
-  }>,
+export function blendLayers(layers: BlendLayerInput[], width: number, height: number): ImageData {
+  // Создаем результирующий ImageData (прозрачный)
+  const result = new ImageData(width, height);
+
+  // Слои накладываются по одному на весь результат: без промежуточных массивов
+  // на каждый пиксель время растет линейно с числом слоев
+  compositeStack(result, groupLayersByParent(layers), undefined);
+
+  return result;
+}
+
+// Слой без групп для форматов, которые их не поддерживают
+export interface FlatLayer {
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  isBackground?: boolean;
+  imageData: ImageData;
+}
+
+/**
+ * Разворачивает группы в плоский список слоев с пикселями
+ * Обычная группа сводится в один слой со своими непрозрачностью и режимом наложения;
+ * вложенные слои группы с пропуском остаются отдельными, их видимость и
+ * непрозрачность умножаются на параметры группы. Маски применяются к пикселям,
+ * слои со смещением переносятся на изображение размером с документ.
+ * Корректирующий слой заменяется сведённым результатом всего, что под ним, вместе с коррекцией
+ * @param layers Слои и группы снизу вверх
+ * @param width Ширина документа
+ * @param height Высота документа
+ * @returns Слои снизу вверх
+ */
+export function flattenLayerGroups(
+  layers: Array<BlendLayerInput & { name: string; isBackground?: boolean }>,
   width: number,
   height: number
-): ImageData {
-  // Создаем результирующий ImageData
-  const result = new ImageData(width, height);
-  const resultData = result.data;
-  
-  // Фильтруем только видимые слои
-  const visibleLayers = layers.filter(layer => layer.visible);
-  
-  if (visibleLayers.length === 0) {
-    // Если нет видимых слоев, возвращаем прозрачное изображение
-    return result;
-  }
-  
-  // Проходим по каждому пикселю результирующего изображения
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const resultPixelIndex = (y * width + x) * 4;
-      
-      // Начинаем с прозрачного пикселя
-      let currentPixel: [number, number, number, number] = [0, 0, 0, 0];
-      
-      // Применяем каждый слой
-      for (let i = 0; i < visibleLayers.length; i++) {
-        const layer = visibleLayers[i];
-        const layerData = layer.imageData.data;
-        const layerWidth = layer.imageData.width;
-        const layerHeight = layer.imageData.height;
-        
-        // Проверяем, что пиксель находится в пределах слоя
-        if (x < layerWidth && y < layerHeight) {
-          const layerPixelIndex = (y * layerWidth + x) * 4;
-          
-          if (layerPixelIndex + 3 < layerData.length) {
-            const layerPixel: [number, number, number, number] = [
-              layerData[layerPixelIndex],     // R
-              layerData[layerPixelIndex + 1], // G
-              layerData[layerPixelIndex + 2], // B
-              layerData[layerPixelIndex + 3]  // A
-            ];
-            
-            // Если это первый слой или текущий пиксель полностью прозрачен
-            if (i === 0 || currentPixel[3] === 0) {
-              currentPixel = [
-                layerPixel[0],
-                layerPixel[1],
-                layerPixel[2],
-                Math.round(layerPixel[3] * (layer.opacity / 100))
-              ];
-            } else {
-              // Смешиваем с предыдущим результатом
-              currentPixel = blendColors(
-                currentPixel,
-                layerPixel,
-                layer.blendMode,
-                layer.opacity / 100
-              );
-            }
-          }
-        }
+): FlatLayer[] {
+  const children = groupLayersByParent(layers);
+  const result: FlatLayer[] = [];
+  // Уже пройденные слои в порядке сведения и открытые группы с пропуском:
+  // для запекания корректирующих слоев
+  const below: BlendLayerInput[] = [];
+  const openGroups = new Set<string | undefined>();
+  const addSubtree = (groupId: string) => {
+    for (const child of children.get(groupId) ?? []) {
+      below.push(child);
+      if (child.isGroup && child.id) addSubtree(child.id);
+    }
+  };
+
+  // Маски групп с пропуском переходят на вложенные слои
+  const visit = (parentId: string | undefined, visible: boolean, opacityScale: number, inheritedMasks: LayerMask[]) => {
+    for (const layer of children.get(parentId) ?? []) {
+      const isVisible = visible && layer.visible;
+      const opacity = Math.round(layer.opacity * opacityScale);
+      const masks = layer.mask ? [...inheritedMasks, layer.mask] : inheritedMasks;
+      below.push(layer);
+
+      if (layer.adjustment) {
+        // Скрытая группа или сам слой скрывают только запеченный результат, но не его содержимое
+        const shown = below.map(item => (openGroups.has(item.id) || item === layer ? { ...item, visible: true } : item));
+        result.push({
+          name: layer.name,
+          visible: isVisible,
+          opacity: 100,
+          blendMode: 'normal',
+          imageData: blendLayers(shown, width, height)
+        });
+      } else if (layer.isGroup && layer.passThrough) {
+        openGroups.add(layer.id);
+        visit(layer.id, isVisible, opacity / 100, masks);
+        openGroups.delete(layer.id);
+      } else if (layer.isGroup) {
+        if (layer.id) addSubtree(layer.id);
+        const imageData = new ImageData(width, height);
+        compositeStack(imageData, children, layer.id);
+        result.push({
+          name: layer.name,
+          visible: isVisible,
+          opacity,
+          blendMode: layer.blendMode,
+          imageData: applyLayerMasks(imageData, masks)
+        });
+      } else if (layer.imageData) {
+        const x = layer.x ?? 0;
+        const y = layer.y ?? 0;
+        result.push({
+          name: layer.name,
+          visible: isVisible,
+          opacity,
+          blendMode: layer.blendMode,
+          isBackground: layer.isBackground,
+          imageData: placeLayerImage(applyLayerMasks(layer.imageData, masks, x, y), x, y, { width, height })
+        });
       }
-      
-      // Записываем результат
-      resultData[resultPixelIndex] = currentPixel[0];
-      resultData[resultPixelIndex + 1] = currentPixel[1];
-      resultData[resultPixelIndex + 2] = currentPixel[2];
-      resultData[resultPixelIndex + 3] = currentPixel[3];
     }
-  }
-  
+  };
+
+  visit(undefined, true, 1, []);
   return result;
 }
 
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBMP, encodeBMP } from './bmp';
+import type { DecodedImage } from './decodedImage';
+
+// Собирает BMP с заголовком BITMAPINFOHEADER из готовых строк пикселей (снизу вверх)
+function buildBMP(options: {
+  width: number;
+  height: number;
+  bitsPerPixel: number;
+  compression?: number;
+  palette?: number[][];
+  masks?: number[];
+  rows: number[][];
+}): ArrayBuffer {
+  const { width, height, bitsPerPixel, compression = 0, palette = [], masks = [], rows } = options;
+  const stride = Math.floor((width * bitsPerPixel + 31) / 32) * 4;
+  const pixelOffset = 14 + 40 + masks.length * 4 + palette.length * 4;
+  const buffer = new ArrayBuffer(pixelOffset + stride * rows.length);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint16(0, 0x4d42, true);
+  view.setUint32(2, buffer.byteLength, true);
+  view.setUint32(10, pixelOffset, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, bitsPerPixel, true);
+  view.setUint32(30, compression, true);
+  view.setUint32(46, palette.length, true);
+
+  masks.forEach((mask, i) => view.setUint32(54 + i * 4, mask, true));
+  palette.forEach(([r, g, b], i) => bytes.set([b, g, r, 0], 54 + masks.length * 4 + i * 4));
+  rows.forEach((row, i) => bytes.set(row, pixelOffset + i * stride));
+
+  return buffer;
+}
+
+const pixels = (image: DecodedImage) => Array.from(image.data);
+
+describe('decodeBMP', () => {
+  it('должен читать 1-битный BMP с палитрой', () => {
+    const image = decodeBMP(buildBMP({
+      width: 3,
+      height: 1,
+      bitsPerPixel: 1,
+      palette: [[0, 0, 0], [255, 255, 255]],
+      rows: [[0b10100000]]
+    }));
+
+    expect(pixels(image)).toEqual([255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('должен читать 4-битный BMP с палитрой', () => {
+    const image = decodeBMP(buildBMP({
+      width: 2,
+      height: 1,
+      bitsPerPixel: 4,
+      palette: [[10, 20, 30], [40, 50, 60]],
+      rows: [[0x10]]
+    }));
+
+    expect(pixels(image)).toEqual([40, 50, 60, 255, 10, 20, 30, 255]);
+  });
+
+  it('должен переворачивать строки BMP, записанного снизу вверх', () => {
+    const image = decodeBMP(buildBMP({
+      width: 1,
+      height: 2,
+      bitsPerPixel: 8,
+      palette: [[255, 0, 0], [0, 0, 255]],
+      rows: [[0], [1]]
+    }));
+
+    // Первая строка файла — нижняя строка изображения
+    expect(pixels(image)).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+  });
+
+  it('должен читать 16-битный BMP с масками 5-6-5', () => {
+    const image = decodeBMP(buildBMP({
+      width: 1,
+      height: 1,
+      bitsPerPixel: 16,
+      compression: 3,
+      masks: [0xf800, 0x07e0, 0x001f],
+      rows: [[0x1f, 0xf8]]
+    }));
+
+    expect(pixels(image)).toEqual([255, 0, 255, 255]);
+  });
+
+  it('должен читать 32-битный BMP без альфа-канала как непрозрачный', () => {
+    const image = decodeBMP(buildBMP({
+      width: 1,
+      height: 1,
+      bitsPerPixel: 32,
+      rows: [[30, 20, 10, 0]]
+    }));
+
+    expect(pixels(image)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('должен отклонять сжатие RLE', () => {
+    expect(() => decodeBMP(buildBMP({ width: 1, height: 1, bitsPerPixel: 8, compression: 1, rows: [[0]] })))
+      .toThrow('не поддерживаются');
+  });
+
+  it('должен отклонять файлы без сигнатуры BM', () => {
+    expect(() => decodeBMP(new ArrayBuffer(64))).toThrow('не является изображением BMP');
+  });
+});
+
+describe('encodeBMP', () => {
+  const image: DecodedImage = {
+    width: 3,
+    height: 2,
+    data: new Uint8ClampedArray([
+      255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0,
+      10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255
+    ])
+  };
+
+  it('32-битный BMP должен сохранять RGBA без потерь', () => {
+    const decoded = decodeBMP(encodeBMP(image, { bitsPerPixel: 32 }).buffer as ArrayBuffer);
+
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(pixels(decoded)).toEqual(Array.from(image.data));
+  });
+
+  it('24-битный BMP должен сохранять цвет и выравнивать строки', () => {
+    const encoded = encodeBMP(image);
+    const decoded = decodeBMP(encoded.buffer as ArrayBuffer);
+
+    // 3 пикселя × 3 байта = 9, с выравниванием до 12 байт на строку
+    expect(encoded.length).toBe(14 + 40 + 12 * 2);
+    expect(pixels(decoded)).toEqual(Array.from(image.data).map((value, i) => (i % 4 === 3 ? 255 : value)));
+  });
+});
@@ -0,0 +1,260 @@
+// Формат BMP (Windows Bitmap)
+//
+// Чтение: 1/4/8 бит с палитрой, 16/32 бита с битовыми масками (BI_BITFIELDS), 24/32 бита BI_RGB;
+// заголовки BITMAPCOREHEADER, BITMAPINFOHEADER и V2–V5. Сжатие RLE не поддерживается.
+// Запись: 24 бита (BITMAPINFOHEADER) или 32 бита с альфа-каналом (BITMAPV4HEADER).
+
+import type { DecodedImage } from './decodedImage';
+
+export type BMPBitDepth = 24 | 32;
+
+export interface BMPEncodeOptions {
+  // 32 бита сохраняют прозрачность; по умолчанию 24 бита
+  bitsPerPixel?: BMPBitDepth;
+}
+
+export const BMP_EXTENSION = '.bmp';
+
+const FILE_HEADER_SIZE = 14;
+const CORE_HEADER_SIZE = 12;
+const INFO_HEADER_SIZE = 40;
+const V4_HEADER_SIZE = 108;
+const SIGNATURE = 0x4d42; // 'BM' в little-endian
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+// 72 DPI в пикселях на метр
+const DEFAULT_PIXELS_PER_METER = 2835;
+const LCS_SRGB = 0x73524742;
+
+interface BitMask {
+  mask: number;
+  shift: number;
+  max: number;
+}
+
+function parseMask(mask: number): BitMask | null {
+  if (mask === 0) return null;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  return { mask, shift, max: mask >>> shift };
+}
+
+function readMasked(value: number, mask: BitMask): number {
+  return Math.round(((value & mask.mask) >>> mask.shift) * 255 / mask.max);
+}
+
+const rowStride = (width: number, bitsPerPixel: number) => Math.floor((width * bitsPerPixel + 31) / 32) * 4;
+
+/**
+ * Декодирует файл BMP
+ * @param buffer Содержимое файла
+ * @returns Изображение в RGBA
+ */
+export function decodeBMP(buffer: ArrayBuffer): DecodedImage {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  if (bytes.length < FILE_HEADER_SIZE + CORE_HEADER_SIZE || view.getUint16(0, true) !== SIGNATURE) {
+    throw new Error('Файл не является изображением BMP');
+  }
+
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(FILE_HEADER_SIZE, true);
+  const isCore = headerSize === CORE_HEADER_SIZE;
+
+  if (!isCore && headerSize < INFO_HEADER_SIZE) {
+    throw new Error(`Неподдерживаемый заголовок BMP (${headerSize} байт)`);
+  }
+  if (FILE_HEADER_SIZE + headerSize > bytes.length) {
+    throw new Error('Файл BMP обрезан');
+  }
+
+  const base = FILE_HEADER_SIZE;
+  const width = isCore ? view.getUint16(base + 4, true) : view.getInt32(base + 4, true);
+  const rawHeight = isCore ? view.getInt16(base + 6, true) : view.getInt32(base + 8, true);
+  const bitsPerPixel = view.getUint16(base + (isCore ? 10 : 14), true);
+  const compression = isCore ? BI_RGB : view.getUint32(base + 16, true);
+  const colorsUsed = isCore ? 0 : view.getUint32(base + 32, true);
+
+  // Отрицательная высота означает порядок строк сверху вниз
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (width <= 0 || height === 0) {
+    throw new Error('Размер изображения BMP не может быть 0');
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitsPerPixel)) {
+    throw new Error(`Неподдерживаемая глубина цвета BMP: ${bitsPerPixel} бит`);
+  }
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error('Сжатые файлы BMP (RLE, JPEG, PNG) не поддерживаются');
+  }
+
+  // Битовые маски: в заголовках V2+ внутри заголовка, в BITMAPINFOHEADER — сразу после него
+  let masks: (BitMask | null)[] = [];
+  let maskBytes = 0;
+  const usesMasks = compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS;
+
+  if (usesMasks) {
+    const maskCount = compression === BI_ALPHABITFIELDS || headerSize >= 56 ? 4 : 3;
+    if (headerSize === INFO_HEADER_SIZE) {
+      maskBytes = maskCount * 4;
+    }
+    const maskOffset = base + INFO_HEADER_SIZE;
+    if (maskOffset + maskCount * 4 > bytes.length) {
+      throw new Error('Файл BMP обрезан');
+    }
+    masks = Array.from({ length: maskCount }, (_, i) => parseMask(view.getUint32(maskOffset + i * 4, true)));
+  } else if (bitsPerPixel === 16) {
+    // По умолчанию 16-битный BMP хранит 5-5-5
+    masks = [parseMask(0x7c00), parseMask(0x03e0), parseMask(0x001f)];
+  }
+
+  if (usesMasks && (bitsPerPixel === 16 || bitsPerPixel === 32) && (!masks[0] || !masks[1] || !masks[2])) {
+    throw new Error('Некорректные битовые маски BMP');
+  }
+
+  // Палитра
+  const palette: number[][] = [];
+  if (bitsPerPixel <= 8) {
+    const entrySize = isCore ? 3 : 4;
+    const paletteOffset = base + headerSize + maskBytes;
+    const count = colorsUsed || 1 << bitsPerPixel;
+    if (paletteOffset + count * entrySize > bytes.length) {
+      throw new Error('Палитра BMP обрезана');
+    }
+    for (let i = 0; i < count; i++) {
+      const pos = paletteOffset + i * entrySize;
+      palette.push([bytes[pos + 2], bytes[pos + 1], bytes[pos]]);
+    }
+  }
+
+  const stride = rowStride(width, bitsPerPixel);
+  if (pixelOffset + stride * height > bytes.length) {
+    throw new Error('Файл BMP обрезан');
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  // 32-битный BI_RGB формально не имеет альфа-канала, но многие программы его пишут:
+  // учитываем четвёртый байт, только если он не равен нулю хотя бы у одного пикселя
+  let useAlphaByte = false;
+  if (bitsPerPixel === 32 && !usesMasks) {
+    for (let y = 0; y < height && !useAlphaByte; y++) {
+      const row = pixelOffset + y * stride;
+      for (let x = 0; x < width; x++) {
+        if (bytes[row + x * 4 + 3] !== 0) {
+          useAlphaByte = true;
+          break;
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * stride;
+
+    for (let x = 0; x < width; x++) {
+      const pos = (y * width + x) * 4;
+      let r: number, g: number, b: number, a = 255;
+
+      if (bitsPerPixel <= 8) {
+        const bitOffset = x * bitsPerPixel;
+        const byte = bytes[row + (bitOffset >> 3)];
+        const index = (byte >> (8 - bitsPerPixel - (bitOffset & 7))) & ((1 << bitsPerPixel) - 1);
+        const color = palette[index];
+        if (!color) {
+          throw new Error(`Индекс ${index} выходит за пределы палитры BMP`);
+        }
+        [r, g, b] = color;
+      } else if (bitsPerPixel === 24) {
+        const p = row + x * 3;
+        b = bytes[p];
+        g = bytes[p + 1];
+        r = bytes[p + 2];
+      } else if (bitsPerPixel === 32 && !usesMasks) {
+        const p = row + x * 4;
+        b = bytes[p];
+        g = bytes[p + 1];
+        r = bytes[p + 2];
+        if (useAlphaByte) a = bytes[p + 3];
+      } else {
+        const value = bitsPerPixel === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        r = readMasked(value, masks[0]!);
+        g = readMasked(value, masks[1]!);
+        b = readMasked(value, masks[2]!);
+        if (masks[3]) a = readMasked(value, masks[3]);
+      }
+
+      data[pos] = r;
+      data[pos + 1] = g;
+      data[pos + 2] = b;
+      data[pos + 3] = a;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Кодирует изображение в формат BMP
+ * @param image Изображение в RGBA
+ * @param options Параметры кодирования
+ * @returns Байты файла
+ */
+export function encodeBMP(image: DecodedImage | ImageData, options: BMPEncodeOptions = {}): Uint8Array {
+  const { width, height, data } = image;
+  const bitsPerPixel = options.bitsPerPixel ?? 24;
+  const withAlpha = bitsPerPixel === 32;
+  const headerSize = withAlpha ? V4_HEADER_SIZE : INFO_HEADER_SIZE;
+  const stride = rowStride(width, bitsPerPixel);
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const imageSize = stride * height;
+
+  const result = new Uint8Array(pixelOffset + imageSize);
+  const view = new DataView(result.buffer);
+
+  // BITMAPFILEHEADER
+  view.setUint16(0, SIGNATURE, true);
+  view.setUint32(2, result.length, true);
+  view.setUint32(10, pixelOffset, true);
+
+  // BITMAPINFOHEADER / BITMAPV4HEADER
+  const base = FILE_HEADER_SIZE;
+  view.setUint32(base, headerSize, true);
+  view.setInt32(base + 4, width, true);
+  view.setInt32(base + 8, height, true);
+  view.setUint16(base + 12, 1, true);
+  view.setUint16(base + 14, bitsPerPixel, true);
+  view.setUint32(base + 16, withAlpha ? BI_BITFIELDS : BI_RGB, true);
+  view.setUint32(base + 20, imageSize, true);
+  view.setInt32(base + 24, DEFAULT_PIXELS_PER_METER, true);
+  view.setInt32(base + 28, DEFAULT_PIXELS_PER_METER, true);
+
+  if (withAlpha) {
+    view.setUint32(base + 40, 0x00ff0000, true);
+    view.setUint32(base + 44, 0x0000ff00, true);
+    view.setUint32(base + 48, 0x000000ff, true);
+    view.setUint32(base + 52, 0xff000000, true);
+    view.setUint32(base + 56, LCS_SRGB, true);
+  }
+
+  // Строки хранятся снизу вверх, пиксели — в порядке BGR(A)
+  const bytesPerPixel = bitsPerPixel / 8;
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = row + x * bytesPerPixel;
+      result[dst] = data[src + 2];
+      result[dst + 1] = data[src + 1];
+      result[dst + 2] = data[src];
+      if (withAlpha) result[dst + 3] = data[src + 3];
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,37 @@
+// Обмен изображениями через буфер обмена
+
+import { encodeImage } from './exportImage';
+
+/**
+ * Возвращает первое изображение из данных вставки
+ * @param data Данные события paste
+ * @returns Файл изображения или null, если в буфере нет картинки
+ */
+export function getClipboardImageFile(data: DataTransfer | null): File | null {
+  if (!data) return null;
+
+  for (const item of Array.from(data.items)) {
+    if (item.kind === 'file' && item.type.startsWith('image/')) {
+      const file = item.getAsFile();
+      if (file) {
+        // У вставленных снимков экрана нет осмысленного имени — даём его по типу
+        const extension = file.type.split('/')[1] ?? 'png';
+        return file.name ? file : new File([file], `clipboard.${extension}`, { type: file.type });
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Копирует изображение в буфер обмена в формате PNG
+ */
+export async function copyImageToClipboard(imageData: ImageData): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('Браузер не поддерживает копирование изображений в буфер обмена');
+  }
+
+  const blob = await encodeImage(imageData, 'png');
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+}
@@ -0,0 +1,8 @@
+// Результат работы декодеров форматов, не зависящих от DOM
+
+// Декодированное изображение: RGBA-пиксели, 4 байта на пиксель
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { ditherChannel, type DitherMethod } from './dither';
+
+describe('ditherChannel', () => {
+  it('без дизеринга должен округлять до ближайшего уровня', () => {
+    const values = [0, 128, 255];
+
+    expect(Array.from(ditherChannel(values, 3, 1, 128))).toEqual([0, 64, 127]);
+  });
+
+  it('должен использовать заданный порог для двух уровней', () => {
+    const values = [10, 100, 200];
+
+    expect(Array.from(ditherChannel(values, 3, 1, 2, 'none', 50))).toEqual([0, 1, 1]);
+    expect(Array.from(ditherChannel(values, 3, 1, 2, 'none', 150))).toEqual([0, 0, 1]);
+  });
+
+  it.each<DitherMethod>(['floyd-steinberg', 'atkinson', 'bayer'])(
+    'метод %s должен сохранять среднюю яркость серого поля',
+    (method) => {
+      const size = 32;
+      const values = new Array(size * size).fill(128);
+      const result = ditherChannel(values, size, size, 2, method);
+      const ones = result.reduce((sum, value) => sum + value, 0);
+
+      expect(ones / result.length).toBeGreaterThan(0.4);
+      expect(ones / result.length).toBeLessThan(0.6);
+    }
+  );
+
+  it('не должен выходить за пределы уровней', () => {
+    const values = [0, 255, 0, 255, 255, 0, 255, 0, 0];
+    const result = ditherChannel(values, 3, 3, 128, 'floyd-steinberg');
+
+    expect(Math.max(...result)).toBeLessThanOrEqual(127);
+  });
+});
@@ -0,0 +1,116 @@
+// Дизеринг — квантование одного канала с рассеиванием ошибки или упорядоченной матрицей
+
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer';
+
+// Ядро рассеивания ошибки: смещение по x, смещение по y, доля ошибки
+export type DiffusionKernel = Array<[number, number, number]>;
+
+export const ERROR_DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson', DiffusionKernel> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16]
+  ],
+  // Аткинсон рассеивает только 6/8 ошибки, сохраняя контраст
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8]
+  ]
+};
+
+// Матрица Байера 8×8 (значения 0–63)
+export const BAYER_MATRIX_8: number[][] = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21]
+];
+
+export const DITHER_METHOD_INFO: Record<DitherMethod, string> = {
+  none: 'Без дизеринга',
+  'floyd-steinberg': 'Флойд–Стейнберг',
+  atkinson: 'Аткинсон',
+  bayer: 'Упорядоченный (Байер 8×8)'
+};
+
+/**
+ * Квантует канал со значениями 0–255 до заданного числа уровней
+ * @param values Значения канала, по одному на пиксель
+ * @param width Ширина изображения
+ * @param height Высота изображения
+ * @param levels Число уровней на выходе (2–256)
+ * @param method Метод дизеринга
+ * @param threshold Порог для двух уровней (по умолчанию 128)
+ * @returns Индексы уровней 0..levels-1
+ */
+export function ditherChannel(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  levels: number,
+  method: DitherMethod = 'none',
+  threshold: number = 128
+): Uint8Array {
+  const pixelCount = width * height;
+  const output = new Uint8Array(pixelCount);
+  const maxLevel = levels - 1;
+  const step = 255 / maxLevel;
+
+  // Для двух уровней используем настраиваемый порог вместо середины диапазона
+  const quantize = (value: number): number => {
+    if (maxLevel === 1) {
+      return value >= threshold ? 1 : 0;
+    }
+    return Math.max(0, Math.min(maxLevel, Math.round(value / step)));
+  };
+
+  if (method === 'none') {
+    for (let i = 0; i < pixelCount; i++) {
+      output[i] = quantize(values[i]);
+    }
+    return output;
+  }
+
+  if (method === 'bayer') {
+    for (let y = 0; y < height; y++) {
+      const row = BAYER_MATRIX_8[y % 8];
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const offset = ((row[x % 8] + 0.5) / 64 - 0.5) * step;
+        output[i] = quantize(values[i] + offset);
+      }
+    }
+    return output;
+  }
+
+  const kernel = ERROR_DIFFUSION_KERNELS[method];
+  const buffer = Float32Array.from({ length: pixelCount }, (_, i) => values[i]);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const level = quantize(buffer[i]);
+      const error = buffer[i] - level * step;
+      output[i] = level;
+
+      for (const [dx, dy, weight] of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          buffer[ny * width + nx] += error * weight;
+        }
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,42 @@
+// Свойства документа: название, автор, разрешение, дата создания и прочие сведения,
+// прочитанные из файла или заданные пользователем
+
+export type DocumentProperties = Record<string, string>;
+
+// Известные ключи свойств и их подписи
+export const DOCUMENT_PROPERTY_LABELS: Record<string, string> = {
+  title: 'Название',
+  author: 'Автор',
+  description: 'Описание',
+  dpi: 'Разрешение, DPI',
+  created: 'Создан',
+  modified: 'Изменён',
+  software: 'Программа',
+  camera: 'Камера',
+  captured: 'Дата съёмки',
+  exifSize: 'Размер по EXIF',
+  orientation: 'Ориентация'
+};
+
+// Ключи, значения которых хранятся как дата в формате ISO 8601
+const DATE_PROPERTIES = new Set(['created', 'modified', 'captured']);
+
+/**
+ * Возвращает подпись свойства для отображения
+ */
+export function getDocumentPropertyLabel(key: string): string {
+  return DOCUMENT_PROPERTY_LABELS[key] ?? key;
+}
+
+/**
+ * Форматирует значение свойства для отображения
+ */
+export function formatDocumentProperty(key: string, value: string): string {
+  if (DATE_PROPERTIES.has(key)) {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) {
+      return date.toLocaleString('ru-RU');
+    }
+  }
+  return value;
+}
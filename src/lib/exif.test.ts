@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { applyExifOrientation, exifToDocumentProperties, readJPEGExif, resetJPEGOrientation, type ExifOrientation } from './exif';
+
+type Entry = [tag: number, type: number, value: number | string];
+
+// Собирает JPEG-заголовок с сегментом APP1 (EXIF): IFD0 и вложенный EXIF IFD
+function buildJPEG(ifd0: Entry[], exifIFD: Entry[] = [], littleEndian = true): ArrayBuffer {
+  const bytes: number[] = [];
+  const u16 = (value: number) => (littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]);
+  const u32 = (value: number) => {
+    const b = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    return littleEndian ? b.reverse() : b;
+  };
+
+  // Строки хранятся после обоих IFD
+  const ifd0Size = 2 + (ifd0.length + (exifIFD.length ? 1 : 0)) * 12 + 4;
+  const exifSize = exifIFD.length ? 2 + exifIFD.length * 12 + 4 : 0;
+  let dataOffset = 8 + ifd0Size + exifSize;
+  const extra: number[] = [];
+
+  const writeIFD = (entries: Entry[]) => {
+    bytes.push(...u16(entries.length));
+    for (const [tag, type, value] of entries) {
+      bytes.push(...u16(tag), ...u16(type));
+      if (typeof value === 'string') {
+        const text = [...value].map(c => c.charCodeAt(0)).concat(0);
+        bytes.push(...u32(text.length), ...u32(dataOffset));
+        extra.push(...text);
+        dataOffset += text.length;
+      } else if (type === 3) {
+        bytes.push(...u32(1), ...u16(value), 0, 0);
+      } else {
+        bytes.push(...u32(1), ...u32(value));
+      }
+    }
+    bytes.push(...u32(0));
+  };
+
+  bytes.push(...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8));
+  writeIFD(exifIFD.length ? [...ifd0, [0x8769, 4, 8 + ifd0Size]] : ifd0);
+  if (exifIFD.length) writeIFD(exifIFD);
+  bytes.push(...extra);
+
+  const app1 = [...'Exif\0\0'].map(c => c.charCodeAt(0)).concat(bytes);
+  const length = app1.length + 2;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...app1, 0xff, 0xd9]).buffer;
+}
+
+describe('readJPEGExif', () => {
+  it('должен читать ориентацию, камеру, дату съёмки и размеры', () => {
+    const exif = readJPEGExif(buildJPEG(
+      [[0x010f, 2, 'Canon'], [0x0110, 2, 'Canon EOS 80D'], [0x0112, 3, 6], [0x0132, 2, '2024:01:01 00:00:00']],
+      [[0x9003, 2, '2023:05:17 14:03:21'], [0xa002, 4, 6000], [0xa003, 3, 4000]]
+    ));
+
+    expect(exif).toEqual({
+      orientation: 6,
+      make: 'Canon',
+      model: 'Canon EOS 80D',
+      captured: '2023-05-17T14:03:21',
+      pixelWidth: 6000,
+      pixelHeight: 4000
+    });
+    expect(exifToDocumentProperties(exif!)).toEqual({
+      camera: 'Canon EOS 80D',
+      captured: '2023-05-17T14:03:21',
+      exifSize: '6000×4000',
+      orientation: 'Поворот на 90° по часовой'
+    });
+  });
+
+  it('должен поддерживать порядок байтов Motorola', () => {
+    expect(readJPEGExif(buildJPEG([[0x0112, 3, 8]], [], false))?.orientation).toBe(8);
+  });
+
+  it('должен возвращать null для файлов без EXIF', () => {
+    expect(readJPEGExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]).buffer)).toBeNull();
+    expect(readJPEGExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBeNull();
+  });
+});
+
+describe('resetJPEGOrientation', () => {
+  it('должен сбрасывать ориентацию в копии файла', () => {
+    const original = buildJPEG([[0x0112, 3, 3]], [], false);
+    const reset = resetJPEGOrientation(original);
+
+    expect(readJPEGExif(reset)?.orientation).toBe(1);
+    expect(readJPEGExif(original)?.orientation).toBe(3);
+  });
+
+  it('должен сбрасывать ориентацию, записанную как LONG', () => {
+    for (const littleEndian of [true, false]) {
+      const reset = resetJPEGOrientation(buildJPEG([[0x0112, 4, 6]], [], littleEndian));
+      expect(readJPEGExif(reset)?.orientation).toBe(1);
+    }
+  });
+});
+
+describe('applyExifOrientation', () => {
+  // Изображение 3×2, значение красного канала = номер пикселя
+  //   0 1 2
+  //   3 4 5
+  const image = {
+    width: 3,
+    height: 2,
+    data: new Uint8ClampedArray(Array.from({ length: 6 }, (_, i) => [i, 0, 0, 255]).flat())
+  };
+  const red = (result: { data: Uint8ClampedArray }) => Array.from(result.data).filter((_, i) => i % 4 === 0);
+
+  it.each<[ExifOrientation, number, number[]]>([
+    [1, 3, [0, 1, 2, 3, 4, 5]],
+    [2, 3, [2, 1, 0, 5, 4, 3]],
+    [3, 3, [5, 4, 3, 2, 1, 0]],
+    [4, 3, [3, 4, 5, 0, 1, 2]],
+    [5, 2, [0, 3, 1, 4, 2, 5]],
+    [6, 2, [3, 0, 4, 1, 5, 2]],
+    [7, 2, [5, 2, 4, 1, 3, 0]],
+    [8, 2, [2, 5, 1, 4, 0, 3]]
+  ])('ориентация %i', (orientation, width, expected) => {
+    const result = applyExifOrientation(image, orientation);
+
+    expect(result.width).toBe(width);
+    expect(red(result)).toEqual(expected);
+  });
+});
@@ -0,0 +1,285 @@
+// Чтение EXIF из JPEG: ориентация, дата съёмки, камера и размеры
+// Ориентация применяется к пикселям при открытии, остальные теги попадают в свойства документа
+
+import type { DecodedImage } from './decodedImage';
+import type { DocumentProperties } from './documentProperties';
+
+// Значения тега Orientation (1 — без преобразования)
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface ExifData {
+  orientation: ExifOrientation;
+  // Дата съёмки в формате ISO 8601 (местное время камеры)
+  captured?: string;
+  make?: string;
+  model?: string;
+  pixelWidth?: number;
+  pixelHeight?: number;
+}
+
+export const EXIF_ORIENTATION_LABELS: Record<ExifOrientation, string> = {
+  1: 'Без поворота',
+  2: 'Отражение по горизонтали',
+  3: 'Поворот на 180°',
+  4: 'Отражение по вертикали',
+  5: 'Отражение по горизонтали и поворот на 270° по часовой',
+  6: 'Поворот на 90° по часовой',
+  7: 'Отражение по горизонтали и поворот на 90° по часовой',
+  8: 'Поворот на 270° по часовой'
+};
+
+const JPEG_SOI = 0xffd8;
+const MARKER_APP1 = 0xffe1;
+const MARKER_SOS = 0xffda;
+const EXIF_HEADER = 'Exif\0\0';
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface ParsedExif {
+  data: ExifData;
+  // Смещение значения тега Orientation от начала файла
+  orientationOffset: number | null;
+  // Тег записан как LONG (4 байта), а не SHORT
+  orientationIsLong: boolean;
+  littleEndian: boolean;
+}
+
+// Находит начало данных TIFF в сегменте APP1 с EXIF
+function findExifSegment(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) {
+    return null;
+  }
+
+  let pos = 2;
+  while (pos + 4 <= view.byteLength) {
+    const marker = view.getUint16(pos);
+    if ((marker & 0xff00) !== 0xff00 || marker === MARKER_SOS) {
+      return null;
+    }
+
+    const length = view.getUint16(pos + 2);
+    if (marker === MARKER_APP1 && pos + 10 <= view.byteLength) {
+      let header = '';
+      for (let i = 0; i < EXIF_HEADER.length; i++) {
+        header += String.fromCharCode(view.getUint8(pos + 4 + i));
+      }
+      if (header === EXIF_HEADER) {
+        return pos + 4 + EXIF_HEADER.length;
+      }
+    }
+
+    pos += 2 + length;
+  }
+
+  return null;
+}
+
+function parseExif(buffer: ArrayBuffer): ParsedExif | null {
+  const view = new DataView(buffer);
+  const tiffStart = findExifSegment(view);
+  if (tiffStart === null || tiffStart + 8 > view.byteLength) {
+    return null;
+  }
+
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return null;
+  }
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 42) {
+    return null;
+  }
+
+  const result: ParsedExif = { data: { orientation: 1 }, orientationOffset: null, orientationIsLong: false, littleEndian };
+  let dateTime: string | undefined;
+  let dateTimeOriginal: string | undefined;
+
+  const readIFD = (offset: number, visit: (tag: number, type: number, count: number, valueOffset: number) => void) => {
+    const start = tiffStart + offset;
+    if (start + 2 > view.byteLength) return;
+
+    const count = view.getUint16(start, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > view.byteLength) return;
+
+      const type = view.getUint16(entry + 2, littleEndian);
+      const valueCount = view.getUint32(entry + 4, littleEndian);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      // Значения до 4 байт хранятся прямо в записи
+      const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+      if (valueOffset + size > view.byteLength) continue;
+
+      visit(view.getUint16(entry, littleEndian), type, valueCount, valueOffset);
+    }
+  };
+
+  const readString = (type: number, count: number, offset: number): string | undefined => {
+    if (type !== TYPE_ASCII) return undefined;
+    let text = '';
+    for (let i = 0; i < count; i++) {
+      const code = view.getUint8(offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || undefined;
+  };
+
+  const readNumber = (type: number, offset: number): number | undefined => {
+    if (type === TYPE_SHORT) return view.getUint16(offset, littleEndian);
+    if (type === TYPE_LONG) return view.getUint32(offset, littleEndian);
+    return undefined;
+  };
+
+  let exifIFD: number | undefined;
+
+  readIFD(view.getUint32(tiffStart + 4, littleEndian), (tag, type, count, offset) => {
+    switch (tag) {
+      case TAG_ORIENTATION: {
+        const value = readNumber(type, offset);
+        if (value !== undefined && value >= 1 && value <= 8) {
+          result.data.orientation = value as ExifOrientation;
+          result.orientationOffset = offset;
+          result.orientationIsLong = type === TYPE_LONG;
+        }
+        break;
+      }
+      case TAG_MAKE:
+        result.data.make = readString(type, count, offset);
+        break;
+      case TAG_MODEL:
+        result.data.model = readString(type, count, offset);
+        break;
+      case TAG_DATE_TIME:
+        dateTime = readString(type, count, offset);
+        break;
+      case TAG_EXIF_IFD:
+        exifIFD = readNumber(type, offset);
+        break;
+    }
+  });
+
+  if (exifIFD !== undefined) {
+    readIFD(exifIFD, (tag, type, count, offset) => {
+      switch (tag) {
+        case TAG_DATE_TIME_ORIGINAL:
+          dateTimeOriginal = readString(type, count, offset);
+          break;
+        case TAG_PIXEL_X_DIMENSION:
+          result.data.pixelWidth = readNumber(type, offset);
+          break;
+        case TAG_PIXEL_Y_DIMENSION:
+          result.data.pixelHeight = readNumber(type, offset);
+          break;
+      }
+    });
+  }
+
+  result.data.captured = parseExifDate(dateTimeOriginal ?? dateTime);
+
+  return result;
+}
+
+// Дата EXIF «ГГГГ:ММ:ДД чч:мм:сс» в ISO 8601
+function parseExifDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Читает EXIF из файла JPEG
+ * @returns Теги EXIF или null, если блока EXIF нет
+ */
+export function readJPEGExif(buffer: ArrayBuffer): ExifData | null {
+  return parseExif(buffer)?.data ?? null;
+}
+
+/**
+ * Возвращает копию JPEG с ориентацией 1, чтобы браузер декодировал пиксели без поворота.
+ * Так ориентация применяется ровно один раз независимо от того, учитывает ли её браузер
+ */
+export function resetJPEGOrientation(buffer: ArrayBuffer): ArrayBuffer {
+  const parsed = parseExif(buffer);
+  if (!parsed || parsed.orientationOffset === null || parsed.data.orientation === 1) {
+    return buffer;
+  }
+
+  const copy = buffer.slice(0);
+  // Значение перезаписывается в той же ширине, в которой хранится
+  if (parsed.orientationIsLong) {
+    new DataView(copy).setUint32(parsed.orientationOffset, 1, parsed.littleEndian);
+  } else {
+    new DataView(copy).setUint16(parsed.orientationOffset, 1, parsed.littleEndian);
+  }
+  return copy;
+}
+
+/**
+ * Применяет к изображению преобразование из тега Orientation
+ * @param image Пиксели в том виде, как они хранятся в файле
+ * @param orientation Значение тега Orientation
+ * @returns Изображение в правильной ориентации (при 5–8 ширина и высота меняются местами)
+ */
+export function applyExifOrientation(image: DecodedImage | ImageData, orientation: ExifOrientation): DecodedImage {
+  const { width, height, data } = image;
+  if (orientation === 1) {
+    return { width, height, data: new Uint8ClampedArray(data) };
+  }
+
+  const swapsAxes = orientation >= 5;
+  const outWidth = swapsAxes ? height : width;
+  const outHeight = swapsAxes ? width : height;
+  const result = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sx: number;
+      let sy: number;
+
+      switch (orientation) {
+        case 2: sx = width - 1 - x; sy = y; break;
+        case 3: sx = width - 1 - x; sy = height - 1 - y; break;
+        case 4: sx = x; sy = height - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = height - 1 - x; break;
+        case 7: sx = width - 1 - y; sy = height - 1 - x; break;
+        default: sx = width - 1 - y; sy = x;
+      }
+
+      const src = (sy * width + sx) * 4;
+      result.set(data.subarray(src, src + 4), (y * outWidth + x) * 4);
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data: result };
+}
+
+/**
+ * Переводит теги EXIF в свойства документа для панели сведений
+ */
+export function exifToDocumentProperties(exif: ExifData): DocumentProperties {
+  const properties: DocumentProperties = {};
+  // Производитель часто повторяется в начале модели: «Canon» + «Canon EOS 80D»
+  const camera = exif.make && exif.model?.startsWith(exif.make) ? exif.model : [exif.make, exif.model].filter(Boolean).join(' ');
+
+  if (camera) properties.camera = camera;
+  if (exif.captured) properties.captured = exif.captured;
+  if (exif.pixelWidth && exif.pixelHeight) properties.exifSize = `${exif.pixelWidth}×${exif.pixelHeight}`;
+  if (exif.orientation !== 1) properties.orientation = EXIF_ORIENTATION_LABELS[exif.orientation];
+
+  return properties;
+}
@@ -0,0 +1,179 @@
+// Экспорт изображения: выбор кодировщика по формату, проверка поддержки
+// форматов браузером и скачивание результата
+
+import { downloadBlob } from './utils';
+import { createGB7Blob, type GB7EncodeOptions } from './encodeGB7';
+import { encodeNetpbm, type NetpbmEncodeOptions, type NetpbmFormat } from './netpbm';
+import { encodeBMP, type BMPEncodeOptions } from './bmp';
+import { encodePSD, type PSDEncodeOptions } from './psd';
+import { encodeTIFF, type TIFFEncodeOptions } from './tiff';
+import { encodeGIF } from './gif';
+import { encodeICO, type ICOEncodeOptions } from './ico';
+import { insertPNGChunks, type PNGMetadata } from './pngChunks';
+import { quantizeImage, type QuantizeOptions } from './quantize';
+
+// Форматы, доступные при экспорте
+export type ExportFormat = 'png' | 'jpg' | 'webp' | 'avif' | 'gb7' | 'gif' | 'ico' | 'bmp' | 'tiff' | 'psd' | NetpbmFormat;
+
+// Форматы, которые кодирует сам браузер через canvas.toBlob
+export type CanvasExportFormat = 'png' | 'jpg' | 'webp' | 'avif';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  png: '.png',
+  jpg: '.jpg',
+  webp: '.webp',
+  avif: '.avif',
+  gb7: '.gb7',
+  gif: '.gif',
+  ico: '.ico',
+  bmp: '.bmp',
+  tiff: '.tif',
+  psd: '.psd',
+  pgm: '.pgm',
+  ppm: '.ppm',
+  pam: '.pam'
+};
+
+const CANVAS_MIME_TYPES: Record<CanvasExportFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// Форматы с потерями, для которых имеет смысл параметр качества
+export const LOSSY_EXPORT_FORMATS: readonly ExportFormat[] = ['jpg', 'webp', 'avif'];
+
+const DEFAULT_QUALITY = 0.9;
+
+const isCanvasExportFormat = (format: ExportFormat): format is CanvasExportFormat => format in CANVAS_MIME_TYPES;
+
+// Кодирует ImageData средствами браузера
+function canvasToBlob(imageData: ImageData, mimeType: string, quality?: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    return Promise.reject(new Error('Не удалось создать контекст canvas'));
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Не удалось создать blob'));
+      }
+    }, mimeType, quality);
+  });
+}
+
+const canvasSupport = new Map<CanvasExportFormat, Promise<boolean>>();
+
+/**
+ * Проверяет, умеет ли браузер кодировать формат через canvas.toBlob.
+ * Неподдерживаемый тип браузер молча заменяет на PNG, поэтому сверяется тип результата
+ */
+export function isCanvasFormatSupported(format: CanvasExportFormat): Promise<boolean> {
+  let support = canvasSupport.get(format);
+
+  if (!support) {
+    const mimeType = CANVAS_MIME_TYPES[format];
+    support = canvasToBlob(new ImageData(1, 1), mimeType)
+      .then(blob => blob.type === mimeType)
+      .catch(() => false);
+    canvasSupport.set(format, support);
+  }
+
+  return support;
+}
+
+// Параметры экспорта; используются только относящиеся к выбранному формату
+export interface ExportOptions {
+  // Качество форматов с потерями (0–1)
+  quality?: number;
+  // Разрешение и текстовые поля PNG
+  png?: PNGMetadata;
+  gb7?: GB7EncodeOptions;
+  netpbm?: NetpbmEncodeOptions;
+  bmp?: BMPEncodeOptions;
+  psd?: PSDEncodeOptions;
+  tiff?: TIFFEncodeOptions;
+  gif?: QuantizeOptions;
+  ico?: ICOEncodeOptions;
+}
+
+/**
+ * Кодирует изображение в выбранный формат
+ * @param imageData Сведённое изображение
+ * @param format Формат файла
+ * @param options Параметры кодирования
+ * @returns Содержимое файла
+ */
+export async function encodeImage(
+  imageData: ImageData,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<Blob> {
+  if (format === 'gb7') {
+    return createGB7Blob(imageData, options.gb7);
+  }
+
+  if (format === 'gif') {
+    return new Blob([encodeGIF(quantizeImage(imageData, options.gif))], { type: 'image/gif' });
+  }
+
+  if (format === 'ico') {
+    return new Blob([encodeICO(imageData, options.ico)], { type: 'image/x-icon' });
+  }
+
+  if (format === 'bmp') {
+    return new Blob([encodeBMP(imageData, options.bmp)], { type: 'image/bmp' });
+  }
+
+  if (format === 'tiff') {
+    return new Blob([encodeTIFF(imageData, options.tiff)], { type: 'image/tiff' });
+  }
+
+  if (format === 'psd') {
+    return new Blob([encodePSD(imageData, options.psd)], { type: 'image/vnd.adobe.photoshop' });
+  }
+
+  if (format === 'pgm' || format === 'ppm' || format === 'pam') {
+    return new Blob([encodeNetpbm(imageData, format, options.netpbm)], { type: 'image/x-portable-anymap' });
+  }
+
+  if (!isCanvasExportFormat(format)) {
+    throw new Error(`Неподдерживаемый формат: ${format}`);
+  }
+
+  const mimeType = CANVAS_MIME_TYPES[format];
+  const quality = LOSSY_EXPORT_FORMATS.includes(format) ? options.quality ?? DEFAULT_QUALITY : undefined;
+  const blob = await canvasToBlob(imageData, mimeType, quality);
+
+  if (blob.type !== mimeType) {
+    throw new Error(`Браузер не поддерживает сохранение в формате ${format.toUpperCase()}`);
+  }
+
+  if (format === 'png' && options.png) {
+    const png = insertPNGChunks(new Uint8Array(await blob.arrayBuffer()), options.png);
+    return new Blob([png], { type: mimeType });
+  }
+
+  return blob;
+}
+
+// Функция для скачивания изображения в различных форматах
+export async function downloadImage(
+  imageData: ImageData, 
+  format: ExportFormat, 
+  filename?: string,
+  options: ExportOptions = {}
+): Promise<void> {
+  const name = filename || `image${EXPORT_EXTENSIONS[format]}`;
+  downloadBlob(await encodeImage(imageData, format, options), name);
+}
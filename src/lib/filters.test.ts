@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { 
   applyKernelFilter, 
   applyMedianFilter, 
@@ -7,31 +7,6 @@ import {
   FILTER_PRESETS 
 } from './filters';
 
-// Mock ImageData для тестовой среды Node.js
-beforeAll(() => {
-  if (typeof ImageData === 'undefined') {
-    global.ImageData = class ImageData {
-      data: Uint8ClampedArray;
-      width: number;
-      height: number;
-
-      constructor(data: Uint8ClampedArray | number, width?: number, height?: number) {
-        if (typeof data === 'number') {
-          // ImageData(width, height)
-          this.width = data;
-          this.height = width!;
-          this.data = new Uint8ClampedArray(this.width * this.height * 4);
-        } else {
-          // ImageData(data, width, height)
-          this.data = data;
-          this.width = width!;
-          this.height = height!;
-        }
-      }
-    } as typeof ImageData;
-  }
-});
-
 // Вспомогательная функция для создания тестового ImageData
 function createTestImageData(width: number, height: number, fillValue: number = 128): ImageData {
   const data = new Uint8ClampedArray(width * height * 4);
@@ -0,0 +1,259 @@
+// Общие константы формата GrayBit-7
+//
+// Заголовок (12 байт):
+//   0–3   сигнатура 0x47 0x42 0x37 0x1D ('GB7' + 0x1D)
+//   4     версия (1 — данные без сжатия, 2 — сжатие задаётся флагами)
+//   5     флаги: бит 0 — маска прозрачности, биты 1–2 — схема сжатия (только v2),
+//         бит 3 — после пикселей следует блок метаданных,
+//         бит 4 — после пикселей (и метаданных) следует блок слоёв
+//   6–7   ширина (big-endian)
+//   8–9   высота (big-endian)
+//   10–11 зарезервировано (0)
+//
+// Далее width × height байт пикселей: бит 7 — маска, биты 0–6 — яркость.
+// В версии 2 с RLE-сжатием этот поток упакован алгоритмом PackBits.
+//
+// Блок метаданных (необязательный, после пикселей):
+//   1 байт версия блока, 2 байта число записей (big-endian),
+//   далее записи: 2 байта длина ключа + ключ UTF-8, 4 байта длина значения + значение UTF-8.
+// Старые читатели, останавливающиеся после width × height байт, его не замечают.
+//
+// Блок слоёв (необязательный, последний): основное изображение файла — сведённый композит,
+// а слои хранятся отдельными GB7-кадрами снизу вверх.
+//   1 байт версия блока, 2 байта число слоёв (big-endian), далее для каждого слоя:
+//   2 байта длина имени + имя UTF-8, 1 байт флаги (бит 0 — видимость, бит 1 — фон),
+//   1 байт непрозрачность (0–100), 1 байт режим наложения, 4 байта длина кадра + кадр GB7.
+
+import type { BlendMode } from '@/context/EditorContext';
+
+export const GB7_SIGNATURE = new Uint8Array([0x47, 0x42, 0x37, 0x1d]);
+export const GB7_HEADER_SIZE = 12;
+export const GB7_MAX_DIMENSION = 0xffff;
+
+export const GB7_VERSION_RAW = 1;
+export const GB7_VERSION_COMPRESSED = 2;
+
+export const GB7_FLAG_MASK = 0x01;
+export const GB7_COMPRESSION_SHIFT = 1;
+export const GB7_COMPRESSION_BITS = 0x06;
+export const GB7_FLAG_METADATA = 0x08;
+export const GB7_FLAG_LAYERS = 0x10;
+
+// Флаги, допустимые в каждой версии; остальные биты зарезервированы
+export const GB7_ALLOWED_FLAGS: Record<number, number> = {
+  [GB7_VERSION_RAW]: GB7_FLAG_MASK | GB7_FLAG_METADATA | GB7_FLAG_LAYERS,
+  [GB7_VERSION_COMPRESSED]: GB7_FLAG_MASK | GB7_COMPRESSION_BITS | GB7_FLAG_METADATA | GB7_FLAG_LAYERS
+};
+
+export const GB7_METADATA_VERSION = 1;
+
+// Метаданные документа: название, автор, разрешение, дата создания и т.п.
+export type GB7Metadata = Record<string, string>;
+
+export const GB7_LAYERS_VERSION = 1;
+
+// Коды режимов наложения в блоке слоёв
+export const GB7_BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'overlay'];
+
+// Описание слоя в блоке слоёв; frame — полноценный GB7-файл без блока слоёв
+export interface GB7LayerRecord {
+  name: string;
+  visible: boolean;
+  isBackground: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  frame: Uint8Array;
+}
+
+// Схемы сжатия пиксельных данных
+export type GB7Compression = 'none' | 'rle';
+
+export const GB7_COMPRESSION_CODES: Record<GB7Compression, number> = {
+  none: 0,
+  rle: 1
+};
+
+/**
+ * Определяет схему сжатия по байту флагов
+ * @returns Схема сжатия или null, если код не поддерживается
+ */
+export function getCompressionFromFlags(flags: number): GB7Compression | null {
+  const code = (flags & GB7_COMPRESSION_BITS) >> GB7_COMPRESSION_SHIFT;
+  const entry = (Object.keys(GB7_COMPRESSION_CODES) as GB7Compression[])
+    .find(compression => GB7_COMPRESSION_CODES[compression] === code);
+  return entry ?? null;
+}
+
+/**
+ * Сериализует блок метаданных
+ * @param metadata Пары ключ/значение
+ * @returns Байты блока
+ */
+export function encodeGB7Metadata(metadata: GB7Metadata): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(metadata).map(([key, value]) => [
+    encoder.encode(key),
+    encoder.encode(value)
+  ]);
+
+  const size = entries.reduce((total, [key, value]) => total + 2 + key.length + 4 + value.length, 3);
+  const buffer = new Uint8Array(size);
+  const view = new DataView(buffer.buffer);
+
+  buffer[0] = GB7_METADATA_VERSION;
+  view.setUint16(1, entries.length, false);
+
+  let offset = 3;
+  for (const [key, value] of entries) {
+    view.setUint16(offset, key.length, false);
+    buffer.set(key, offset + 2);
+    offset += 2 + key.length;
+
+    view.setUint32(offset, value.length, false);
+    buffer.set(value, offset + 4);
+    offset += 4 + value.length;
+  }
+
+  return buffer;
+}
+
+/**
+ * Читает блок метаданных
+ * @param bytes Данные файла
+ * @param offset Смещение начала блока
+ * @returns Метаданные и количество прочитанных байтов
+ */
+export function decodeGB7Metadata(
+  bytes: Uint8Array,
+  offset: number
+): { metadata: GB7Metadata; bytesRead: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  const readBytes = (position: number, length: number): Uint8Array => {
+    if (position + length > bytes.length) {
+      throw new Error('Блок метаданных обрезан');
+    }
+    return bytes.subarray(position, position + length);
+  };
+
+  const [blockVersion] = readBytes(offset, 1);
+  if (blockVersion !== GB7_METADATA_VERSION) {
+    throw new Error(`Неизвестная версия блока метаданных: ${blockVersion}`);
+  }
+
+  readBytes(offset + 1, 2);
+  const count = view.getUint16(offset + 1, false);
+  const metadata: GB7Metadata = {};
+  let position = offset + 3;
+
+  for (let i = 0; i < count; i++) {
+    readBytes(position, 2);
+    const keyLength = view.getUint16(position, false);
+    const key = decoder.decode(readBytes(position + 2, keyLength));
+    position += 2 + keyLength;
+
+    readBytes(position, 4);
+    const valueLength = view.getUint32(position, false);
+    metadata[key] = decoder.decode(readBytes(position + 4, valueLength));
+    position += 4 + valueLength;
+  }
+
+  return { metadata, bytesRead: position - offset };
+}
+
+/**
+ * Сериализует блок слоёв
+ * @param records Слои снизу вверх с уже закодированными кадрами
+ * @returns Байты блока
+ */
+export function encodeGB7LayerBlock(records: GB7LayerRecord[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = records.map(record => encoder.encode(record.name));
+
+  const size = records.reduce(
+    (total, record, index) => total + 2 + names[index].length + 3 + 4 + record.frame.length,
+    3
+  );
+  const buffer = new Uint8Array(size);
+  const view = new DataView(buffer.buffer);
+
+  buffer[0] = GB7_LAYERS_VERSION;
+  view.setUint16(1, records.length, false);
+
+  let offset = 3;
+  records.forEach((record, index) => {
+    const name = names[index];
+    view.setUint16(offset, name.length, false);
+    buffer.set(name, offset + 2);
+    offset += 2 + name.length;
+
+    buffer[offset] = (record.visible ? 0x01 : 0) | (record.isBackground ? 0x02 : 0);
+    buffer[offset + 1] = Math.max(0, Math.min(100, Math.round(record.opacity)));
+    buffer[offset + 2] = Math.max(0, GB7_BLEND_MODES.indexOf(record.blendMode));
+    offset += 3;
+
+    view.setUint32(offset, record.frame.length, false);
+    buffer.set(record.frame, offset + 4);
+    offset += 4 + record.frame.length;
+  });
+
+  return buffer;
+}
+
+/**
+ * Читает блок слоёв
+ * @param bytes Данные файла
+ * @param offset Смещение начала блока
+ * @returns Слои (кадры не декодируются) и количество прочитанных байтов
+ */
+export function decodeGB7LayerBlock(
+  bytes: Uint8Array,
+  offset: number
+): { records: GB7LayerRecord[]; bytesRead: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  const readBytes = (position: number, length: number): Uint8Array => {
+    if (position + length > bytes.length) {
+      throw new Error('Блок слоёв обрезан');
+    }
+    return bytes.subarray(position, position + length);
+  };
+
+  const [blockVersion] = readBytes(offset, 1);
+  if (blockVersion !== GB7_LAYERS_VERSION) {
+    throw new Error(`Неизвестная версия блока слоёв: ${blockVersion}`);
+  }
+
+  readBytes(offset + 1, 2);
+  const count = view.getUint16(offset + 1, false);
+  const records: GB7LayerRecord[] = [];
+  let position = offset + 3;
+
+  for (let i = 0; i < count; i++) {
+    readBytes(position, 2);
+    const nameLength = view.getUint16(position, false);
+    const name = decoder.decode(readBytes(position + 2, nameLength));
+    position += 2 + nameLength;
+
+    const [flags, opacity, blendCode] = readBytes(position, 3);
+    position += 3;
+
+    readBytes(position, 4);
+    const frameLength = view.getUint32(position, false);
+    const frame = readBytes(position + 4, frameLength);
+    position += 4 + frameLength;
+
+    records.push({
+      name,
+      visible: (flags & 0x01) !== 0,
+      isBackground: (flags & 0x02) !== 0,
+      opacity: Math.min(100, opacity),
+      blendMode: GB7_BLEND_MODES[blendCode] ?? 'normal',
+      frame
+    });
+  }
+
+  return { records, bytesRead: position - offset };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGIF } from './gif';
+import { lzwDecode } from './lzw';
+import type { IndexedImage } from './quantize';
+
+// Разбирает GIF, созданный encodeGIF: палитра, прозрачный индекс и индексы пикселей
+function parseGIF(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const tableSize = 2 << (bytes[10] & 0x07);
+  let pos = 13 + tableSize * 3;
+  let transparentIndex: number | null = null;
+
+  if (bytes[pos] === 0x21 && bytes[pos + 1] === 0xf9) {
+    if (bytes[pos + 3] & 0x01) transparentIndex = bytes[pos + 6];
+    pos += 8;
+  }
+
+  expect(bytes[pos]).toBe(0x2c);
+  pos += 10;
+
+  const minCodeSize = bytes[pos++];
+  const chunks: number[] = [];
+  while (bytes[pos] !== 0) {
+    const length = bytes[pos++];
+    expect(length).toBeLessThanOrEqual(255);
+    chunks.push(...bytes.subarray(pos, pos + length));
+    pos += length;
+  }
+
+  const indices = lzwDecode(new Uint8Array(chunks), width * height, { minCodeSize, bitOrder: 'lsb', earlyChange: false });
+
+  return { signature, width, height, tableSize, minCodeSize, transparentIndex, indices, trailer: bytes[pos + 1], end: pos + 2 };
+}
+
+const createIndexed = (width: number, height: number, colors: number, transparentIndex: number | null = null): IndexedImage => ({
+  width,
+  height,
+  palette: Array.from({ length: colors }, (_, i) => [i, 255 - i, i * 2 % 256] as [number, number, number]),
+  transparentIndex,
+  indices: new Uint8Array(width * height).map((_, i) => ((i * 7) ^ (i >> 5)) % colors)
+});
+
+describe('encodeGIF', () => {
+  it('должен записывать корректную структуру GIF89a', () => {
+    const image = createIndexed(5, 3, 4);
+    const bytes = encodeGIF(image);
+    const gif = parseGIF(bytes);
+
+    expect(gif.signature).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([5, 3]);
+    expect(gif.tableSize).toBe(4);
+    expect(gif.minCodeSize).toBe(2);
+    expect(gif.transparentIndex).toBeNull();
+    expect(Array.from(gif.indices)).toEqual(Array.from(image.indices));
+    expect(gif.trailer).toBe(0x3b);
+    expect(gif.end).toBe(bytes.length);
+  });
+
+  it('должен дополнять палитру до степени двойки и сохранять прозрачный индекс', () => {
+    const image = createIndexed(4, 4, 5, 4);
+    const gif = parseGIF(encodeGIF(image));
+
+    expect(gif.tableSize).toBe(8);
+    expect(gif.minCodeSize).toBe(3);
+    expect(gif.transparentIndex).toBe(4);
+    expect(Array.from(gif.indices)).toEqual(Array.from(image.indices));
+  });
+
+  it('должен разбивать большие данные на подблоки по 255 байт', () => {
+    const image = createIndexed(300, 200, 256);
+    const gif = parseGIF(encodeGIF(image));
+
+    expect(gif.minCodeSize).toBe(8);
+    expect(gif.indices).toEqual(image.indices);
+  });
+
+  it('должен отклонять пустое изображение', () => {
+    expect(() => encodeGIF(createIndexed(0, 0, 2))).toThrow('GIF поддерживает размеры');
+  });
+});
@@ -0,0 +1,109 @@
+// Кодирование изображений в формат GIF89a (один кадр, глобальная палитра)
+
+import { lzwEncode } from './lzw';
+import type { IndexedImage } from './quantize';
+
+export const GIF_EXTENSION = '.gif';
+
+const MAX_DIMENSION = 0xffff;
+const MAX_SUB_BLOCK = 255;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      this.byte(text.charCodeAt(i));
+    }
+  }
+
+  array(data: Uint8Array): void {
+    for (let i = 0; i < data.length; i++) {
+      this.bytes.push(data[i]);
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+/**
+ * Кодирует изображение в индексированных цветах в GIF
+ * @param image Индексы пикселей и палитра (до 256 цветов)
+ * @returns Байты файла GIF
+ */
+export function encodeGIF(image: IndexedImage): Uint8Array {
+  const { width, height, palette, transparentIndex, indices } = image;
+
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`GIF поддерживает размеры от 1 до ${MAX_DIMENSION} пикселей`);
+  }
+  if (palette.length < 1 || palette.length > 256) {
+    throw new Error('Палитра GIF должна содержать от 1 до 256 цветов');
+  }
+
+  // Размер таблицы цветов — степень двойки, не меньше 2
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const writer = new ByteWriter();
+
+  writer.ascii('GIF89a');
+
+  // Дескриптор логического экрана: глобальная палитра, 8 бит на канал
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(0x80 | (7 << 4) | (tableBits - 1));
+  writer.byte(0);
+  writer.byte(0);
+
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const [r, g, b] = palette[i] ?? [0, 0, 0];
+    writer.byte(r);
+    writer.byte(g);
+    writer.byte(b);
+  }
+
+  // Расширение управления графикой задаёт прозрачный индекс
+  if (transparentIndex !== null) {
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    writer.byte(0x01);
+    writer.uint16(0);
+    writer.byte(transparentIndex);
+    writer.byte(0);
+  }
+
+  // Дескриптор изображения: кадр на весь экран, без локальной палитры и чересстрочности
+  writer.byte(0x2c);
+  writer.uint16(0);
+  writer.uint16(0);
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(0);
+
+  // Минимальная длина кода LZW в GIF — 2 бита
+  const minCodeSize = Math.max(2, tableBits);
+  const compressed = lzwEncode(indices, { minCodeSize, bitOrder: 'lsb', earlyChange: false });
+
+  writer.byte(minCodeSize);
+  for (let offset = 0; offset < compressed.length; offset += MAX_SUB_BLOCK) {
+    const block = compressed.subarray(offset, offset + MAX_SUB_BLOCK);
+    writer.byte(block.length);
+    writer.array(block);
+  }
+  writer.byte(0);
+
+  writer.byte(0x3b);
+
+  return writer.toUint8Array();
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { encodeICO } from './ico';
+
+// Непрозрачное красное изображение
+const createImage = (width: number, height: number) =>
+  new ImageData(new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 0 || i % 4 === 3 ? 255 : 0)), width, height);
+
+// Читает каталог ICO: размер, разрядность, длина и смещение каждой записи
+function readDirectory(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer);
+  return Array.from({ length: view.getUint16(4, true) }, (_, i) => {
+    const record = 6 + i * 16;
+    return {
+      size: bytes[record] || 256,
+      bitCount: view.getUint16(record + 6, true),
+      length: view.getUint32(record + 8, true),
+      offset: view.getUint32(record + 12, true)
+    };
+  });
+}
+
+describe('encodeICO', () => {
+  it('должен записывать каталог со всеми выбранными размерами', () => {
+    const bytes = encodeICO(createImage(64, 64), { sizes: [256, 16, 32] });
+    const view = new DataView(bytes.buffer);
+    const entries = readDirectory(bytes);
+
+    expect(view.getUint16(2, true)).toBe(1);
+    expect(entries.map(entry => entry.size)).toEqual([16, 32, 256]);
+    expect(entries.every(entry => entry.bitCount === 32)).toBe(true);
+
+    // Записи идут подряд после каталога и заканчиваются вместе с файлом
+    expect(entries[0].offset).toBe(6 + 16 * 3);
+    const last = entries[entries.length - 1];
+    expect(last.offset + last.length).toBe(bytes.length);
+
+    // DIB с удвоенной высотой: пиксели + маска AND
+    const dib = new DataView(bytes.buffer, entries[1].offset);
+    expect(dib.getInt32(4, true)).toBe(32);
+    expect(dib.getInt32(8, true)).toBe(64);
+    expect(entries[1].length).toBe(40 + 32 * 32 * 4 + 4 * 32);
+  });
+
+  it('должен вписывать неквадратное изображение с прозрачными полями', () => {
+    const bytes = encodeICO(createImage(32, 16), { sizes: [16], method: 'nearest' });
+    const { offset } = readDirectory(bytes)[0];
+    const pixel = (x: number, y: number) => {
+      // Строки хранятся снизу вверх в порядке BGRA
+      const pos = offset + 40 + ((15 - y) * 16 + x) * 4;
+      return Array.from(bytes.subarray(pos, pos + 4));
+    };
+    const maskBit = (x: number, y: number) => (bytes[offset + 40 + 16 * 16 * 4 + (15 - y) * 4 + (x >> 3)] >> (7 - (x & 7))) & 1;
+
+    // Изображение 16×8 по центру: строки 4–11
+    expect(pixel(0, 0)).toEqual([0, 0, 0, 0]);
+    expect(maskBit(0, 0)).toBe(1);
+    expect(pixel(5, 8)).toEqual([0, 0, 255, 255]);
+    expect(maskBit(5, 8)).toBe(0);
+  });
+
+  it('должен отклонять недопустимые размеры', () => {
+    expect(() => encodeICO(createImage(8, 8), { sizes: [512] })).toThrow('Размер значка');
+    expect(() => encodeICO(createImage(8, 8), { sizes: [] })).toThrow('Не выбран');
+  });
+});
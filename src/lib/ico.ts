@@ -0,0 +1,133 @@
+// Кодирование значков Windows (ICO) с несколькими размерами в одном файле
+// Каждый размер хранится как 32-битный DIB с альфа-каналом и маской AND
+
+import { resizeImage } from './interpolation';
+
+export const ICO_EXTENSION = '.ico';
+
+// Стандартные размеры значков
+export const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256] as const;
+
+export type ICOSize = (typeof ICO_SIZES)[number];
+
+export interface ICOEncodeOptions {
+  // Размеры значков (16–256); по умолчанию 16, 32, 48 и 256
+  sizes?: number[];
+  // Метод интерполяции при масштабировании
+  method?: 'nearest' | 'bilinear';
+}
+
+const DEFAULT_SIZES: ICOSize[] = [16, 32, 48, 256];
+const MIN_SIZE = 16;
+const MAX_SIZE = 256;
+
+const ICONDIR_SIZE = 6;
+const ICONDIRENTRY_SIZE = 16;
+const INFO_HEADER_SIZE = 40;
+
+// Вписывает изображение в квадрат size × size с сохранением пропорций
+function renderIcon(image: ImageData, size: number, method: 'nearest' | 'bilinear'): ImageData {
+  const scale = size / Math.max(image.width, image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const resized = width === image.width && height === image.height
+    ? image
+    : resizeImage(image, image.width, image.height, width, height, method);
+
+  if (width === size && height === size) {
+    return resized;
+  }
+
+  // Свободные поля остаются прозрачными
+  const icon = new ImageData(size, size);
+  const left = Math.floor((size - width) / 2);
+  const top = Math.floor((size - height) / 2);
+  for (let y = 0; y < height; y++) {
+    icon.data.set(resized.data.subarray(y * width * 4, (y + 1) * width * 4), ((top + y) * size + left) * 4);
+  }
+
+  return icon;
+}
+
+// DIB значка: заголовок с удвоенной высотой, пиксели BGRA снизу вверх, затем маска AND
+function encodeIconDIB(icon: ImageData): Uint8Array {
+  const { width, height, data } = icon;
+  const pixelBytes = width * height * 4;
+  const maskStride = Math.floor((width + 31) / 32) * 4;
+  const buffer = new Uint8Array(INFO_HEADER_SIZE + pixelBytes + maskStride * height);
+  const view = new DataView(buffer.buffer);
+
+  view.setUint32(0, INFO_HEADER_SIZE, true);
+  view.setInt32(4, width, true);
+  view.setInt32(8, height * 2, true);
+  view.setUint16(12, 1, true);
+  view.setUint16(14, 32, true);
+  view.setUint32(20, pixelBytes + maskStride * height, true);
+
+  for (let y = 0; y < height; y++) {
+    const row = height - 1 - y;
+    for (let x = 0; x < width; x++) {
+      const src = (row * width + x) * 4;
+      const dst = INFO_HEADER_SIZE + (y * width + x) * 4;
+      buffer[dst] = data[src + 2];
+      buffer[dst + 1] = data[src + 1];
+      buffer[dst + 2] = data[src];
+      buffer[dst + 3] = data[src + 3];
+
+      // Бит маски AND = 1 для полностью прозрачных пикселей (для программ без поддержки альфы)
+      if (data[src + 3] === 0) {
+        buffer[INFO_HEADER_SIZE + pixelBytes + y * maskStride + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Кодирует изображение в значок ICO с несколькими размерами
+ * @param image Исходное изображение; неквадратное вписывается с прозрачными полями
+ * @param options Набор размеров и метод масштабирования
+ * @returns Байты файла ICO
+ */
+export function encodeICO(image: ImageData, options: ICOEncodeOptions = {}): Uint8Array {
+  const { method = 'bilinear' } = options;
+  const sizes = [...new Set(options.sizes ?? DEFAULT_SIZES)].sort((a, b) => a - b);
+
+  if (sizes.length === 0) {
+    throw new Error('Не выбран ни один размер значка');
+  }
+  if (sizes.some(size => !Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE)) {
+    throw new Error(`Размер значка должен быть от ${MIN_SIZE} до ${MAX_SIZE} пикселей`);
+  }
+  if (image.width === 0 || image.height === 0) {
+    throw new Error('Размер изображения не может быть 0');
+  }
+
+  const entries = sizes.map(size => encodeIconDIB(renderIcon(image, size, method)));
+  const headerSize = ICONDIR_SIZE + ICONDIRENTRY_SIZE * entries.length;
+  const totalSize = headerSize + entries.reduce((total, entry) => total + entry.length, 0);
+  const buffer = new Uint8Array(totalSize);
+  const view = new DataView(buffer.buffer);
+
+  view.setUint16(0, 0, true);
+  view.setUint16(2, 1, true);
+  view.setUint16(4, entries.length, true);
+
+  let offset = headerSize;
+  entries.forEach((entry, i) => {
+    const record = ICONDIR_SIZE + i * ICONDIRENTRY_SIZE;
+    // Размер 256 записывается как 0
+    buffer[record] = sizes[i] % 256;
+    buffer[record + 1] = sizes[i] % 256;
+    view.setUint16(record + 4, 1, true);
+    view.setUint16(record + 6, 32, true);
+    view.setUint32(record + 8, entry.length, true);
+    view.setUint32(record + 12, offset, true);
+
+    buffer.set(entry, offset);
+    offset += entry.length;
+  });
+
+  return buffer;
+}
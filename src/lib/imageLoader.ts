@@ -0,0 +1,222 @@
+// Открытие файлов изображений: стандартные форматы декодирует браузер,
+// остальные (GB7, Netpbm, BMP, TIFF, PSD) — декодеры редактора
+
+import type { Layer } from '@/context/EditorContext';
+import type { DocumentProperties } from './documentProperties';
+import { parseGB7File } from './parseGB7';
+import { decodeNetpbm, NETPBM_EXTENSIONS } from './netpbm';
+import { decodeBMP, BMP_EXTENSION } from './bmp';
+import { decodePSD, PSD_EXTENSION } from './psd';
+import { decodeTIFF, TIFF_EXTENSIONS } from './tiff';
+import type { DecodedImage } from './decodedImage';
+import { applyExifOrientation, exifToDocumentProperties, readJPEGExif, resetJPEGOrientation } from './exif';
+import { readPNGMetadata } from './pngChunks';
+import { imageDataToDataUrl, isGB7File } from './utils';
+
+// Форматы, которые декодирует браузер
+const BROWSER_FORMATS = ['image/png', 'image/jpeg', 'image/jpg'];
+const BROWSER_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+const GB7_EXTENSION = '.gb7';
+
+// Значение атрибута accept для выбора файла
+export const IMAGE_FILE_ACCEPT = [...BROWSER_EXTENSIONS, GB7_EXTENSION, BMP_EXTENSION, ...TIFF_EXTENSIONS, PSD_EXTENSION, ...NETPBM_EXTENSIONS].join(',');
+
+// Перечень форматов для сообщений об ошибках
+export const SUPPORTED_FORMATS_LABEL = 'PNG, JPG, BMP, TIFF, PSD, GB7, PGM, PPM или PAM';
+
+export interface LoadedImage {
+  imageData: ImageData;
+  url: string;
+  // Свойства документа, прочитанные из файла
+  properties: DocumentProperties;
+  // Слои многослойного файла снизу вверх; пусто, если файл однослойный
+  layers: Omit<Layer, 'id'>[];
+  // Предупреждение для пользователя: файл открыт, но не полностью
+  warning?: string;
+}
+
+const hasExtension = (file: File, extensions: string[]) => {
+  const name = file.name.toLowerCase();
+  return extensions.some(extension => name.endsWith(extension));
+};
+
+export const isNetpbmFile = (file: File) => hasExtension(file, NETPBM_EXTENSIONS);
+
+// BMP декодируется редактором, чтобы не зависеть от поддержки вариантов формата в браузере
+export const isBMPFile = (file: File) => file.type === 'image/bmp' || hasExtension(file, [BMP_EXTENSION]);
+
+export const isTIFFFile = (file: File) => file.type === 'image/tiff' || hasExtension(file, TIFF_EXTENSIONS);
+
+export const isPSDFile = (file: File) =>
+  file.type === 'image/vnd.adobe.photoshop' || hasExtension(file, [PSD_EXTENSION]);
+
+export const isPNGFile = (file: File) => file.type === 'image/png' || hasExtension(file, ['.png']);
+
+export const isJPEGFile = (file: File) =>
+  file.type === 'image/jpeg' || file.type === 'image/jpg' || hasExtension(file, ['.jpg', '.jpeg']);
+
+/**
+ * Проверяет, может ли редактор открыть файл
+ */
+export function isSupportedImageFile(file: File): boolean {
+  return BROWSER_FORMATS.includes(file.type)
+    || hasExtension(file, BROWSER_EXTENSIONS)
+    || isGB7File(file)
+    || isNetpbmFile(file)
+    || isBMPFile(file)
+    || isTIFFFile(file)
+    || isPSDFile(file);
+}
+
+function loadBrowserImage(file: Blob): Promise<LoadedImage> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Не удалось создать контекст canvas'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0);
+      resolve({
+        imageData: ctx.getImageData(0, 0, img.width, img.height),
+        url,
+        properties: {},
+        layers: []
+      });
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Не удалось загрузить изображение'));
+    };
+
+    img.src = url;
+  });
+}
+
+// PNG: разрешение и текстовые поля из служебных блоков попадают в свойства документа
+async function loadPNGImage(file: File): Promise<LoadedImage> {
+  const properties = readPNGMetadata(await file.arrayBuffer());
+  return { ...(await loadBrowserImage(file)), properties };
+}
+
+// JPEG: ориентация из EXIF применяется к пикселям, остальные теги попадают в свойства документа
+async function loadJPEGImage(file: File): Promise<LoadedImage> {
+  const buffer = await file.arrayBuffer();
+  const exif = readJPEGExif(buffer);
+
+  if (!exif) {
+    return loadBrowserImage(file);
+  }
+
+  const properties = exifToDocumentProperties(exif);
+
+  // Если тег сбросить не удалось, поворот остается браузеру, иначе он применился бы дважды
+  const resetBuffer = exif.orientation === 1 ? buffer : resetJPEGOrientation(buffer);
+  if (resetBuffer === buffer) {
+    return { ...(await loadBrowserImage(file)), properties };
+  }
+
+  // Браузер декодирует копию без тега ориентации, поворот выполняется здесь
+  const decoded = await loadBrowserImage(new Blob([resetBuffer], { type: 'image/jpeg' }));
+  URL.revokeObjectURL(decoded.url);
+
+  const { width, height, data } = applyExifOrientation(decoded.imageData, exif.orientation);
+  const imageData = new ImageData(data, width, height);
+
+  return { imageData, url: imageDataToDataUrl(imageData), properties, layers: [] };
+}
+
+async function loadGB7Image(file: File): Promise<LoadedImage> {
+  const { imageData, metadata, layers } = await parseGB7File(file);
+
+  return {
+    imageData,
+    url: imageDataToDataUrl(imageData),
+    properties: metadata,
+    layers: layers.map(layer => {
+      const layerImageData = new ImageData(layer.pixels, layer.header.width, layer.header.height);
+      return {
+        name: layer.name,
+        visible: layer.visible,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode,
+        imageData: layerImageData,
+        imageUrl: imageDataToDataUrl(layerImageData),
+        isBackground: layer.isBackground
+      };
+    })
+  };
+}
+
+async function loadPSDImage(file: File): Promise<LoadedImage> {
+  const { width, height, composite, layers, fallbackReason } = decodePSD(await file.arrayBuffer());
+  const imageData = new ImageData(composite, width, height);
+
+  return {
+    imageData,
+    url: imageDataToDataUrl(imageData),
+    properties: {},
+    warning: fallbackReason
+      ? `слои не поддерживаются (${fallbackReason}), открыто сведённое изображение`
+      : undefined,
+    layers: layers.map(layer => {
+      const layerImageData = new ImageData(layer.pixels, width, height);
+      return {
+        name: layer.name,
+        visible: layer.visible,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode,
+        imageData: layerImageData,
+        imageUrl: imageDataToDataUrl(layerImageData),
+        isBackground: layer.isBackground
+      };
+    })
+  };
+}
+
+// Загружает файл формата, который декодируется без участия браузера
+async function loadDecodedImage(file: File, decode: (buffer: ArrayBuffer) => DecodedImage): Promise<LoadedImage> {
+  const { width, height, data } = decode(await file.arrayBuffer());
+  const imageData = new ImageData(data, width, height);
+
+  return { imageData, url: imageDataToDataUrl(imageData), properties: {}, layers: [] };
+}
+
+/**
+ * Загружает файл изображения любого поддерживаемого формата
+ * @param file Файл, выбранный пользователем
+ * @returns Сведённое изображение, его превью, свойства документа и слои
+ */
+export function loadImageFile(file: File): Promise<LoadedImage> {
+  if (isGB7File(file)) {
+    return loadGB7Image(file);
+  }
+  if (isNetpbmFile(file)) {
+    return loadDecodedImage(file, decodeNetpbm);
+  }
+  if (isBMPFile(file)) {
+    return loadDecodedImage(file, decodeBMP);
+  }
+  if (isTIFFFile(file)) {
+    return loadDecodedImage(file, decodeTIFF);
+  }
+  if (isPSDFile(file)) {
+    return loadPSDImage(file);
+  }
+  if (isJPEGFile(file)) {
+    return loadJPEGImage(file);
+  }
+  if (isPNGFile(file)) {
+    return loadPNGImage(file);
+  }
+  return loadBrowserImage(file);
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getCenteredOffset, getDocumentSize, getLayerMoveUpdates, placeLayerImage, scaleLayerBounds } from './layerGeometry';
+import { createLayerMask } from './layerMask';
+
+// Изображение, в красном канале которого записан номер пикселя
+const createNumberedImage = (width: number, height: number) =>
+  new ImageData(new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 0 ? i / 4 + 1 : 255)), width, height);
+
+const redOf = (image: ImageData) => Array.from(image.data.filter((_, i) => i % 4 === 0));
+
+describe('размер документа и центрирование', () => {
+  it('берет размер нижнего слоя с пикселями', () => {
+    expect(getDocumentSize([{ imageData: null }, { imageData: new ImageData(4, 3) }, { imageData: new ImageData(8, 8) }]))
+      .toEqual({ width: 4, height: 3 });
+    expect(getDocumentSize([{ imageData: null }])).toBeNull();
+  });
+
+  it('центрирует меньшие и большие изображения', () => {
+    expect(getCenteredOffset(2, 1, { width: 5, height: 4 })).toEqual({ x: 1, y: 1 });
+    expect(getCenteredOffset(7, 4, { width: 4, height: 4 })).toEqual({ x: -2, y: 0 });
+  });
+});
+
+describe('getLayerMoveUpdates', () => {
+  it('сдвигает связанную маску вместе со слоем', () => {
+    const layer = { x: 1, y: 2, mask: createLayerMask(2, 2, 255, 1, 2) };
+    expect(getLayerMoveUpdates(layer, -3, 4)).toMatchObject({ x: -2, y: 6, mask: { x: -2, y: 6 } });
+  });
+
+  it('оставляет несвязанную маску на месте', () => {
+    const layer = { mask: { ...createLayerMask(2, 2), linked: false } };
+    expect(getLayerMoveUpdates(layer, 5, 5)).toEqual({ x: 5, y: 5 });
+  });
+});
+
+describe('placeLayerImage', () => {
+  it('переносит слой со смещением и обрезает выступающие части', () => {
+    const result = placeLayerImage(createNumberedImage(2, 2), -1, 1, { width: 3, height: 2 });
+
+    expect(redOf(result)).toEqual([0, 0, 0, 2, 0, 0]);
+    expect(result.data[3]).toBe(0);
+  });
+
+  it('возвращает исходное изображение, если оно совпадает с документом', () => {
+    const image = createNumberedImage(2, 2);
+    expect(placeLayerImage(image, 0, 0, { width: 2, height: 2 })).toBe(image);
+    expect(redOf(placeLayerImage(image, 5, 0, { width: 2, height: 2 }))).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('scaleLayerBounds', () => {
+  it('масштабирует смещение и размер слоя вместе с документом', () => {
+    expect(scaleLayerBounds({ x: 10, y: -4, width: 20, height: 8 }, 0.5, 2)).toEqual({ x: 5, y: -8, width: 10, height: 16 });
+    expect(scaleLayerBounds({ x: 0, y: 0, width: 1, height: 1 }, 0.1, 0.1)).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+});
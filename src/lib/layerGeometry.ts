@@ -0,0 +1,99 @@
+// Положение слоев в документе: слой хранит пиксели собственного размера
+// и смещение левого верхнего угла относительно документа
+
+import type { LayerMask } from './layerMask';
+
+export interface LayerOffset {
+  x: number;
+  y: number;
+}
+
+export interface DocumentSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Размер нижнего слоя с пикселями — размер документа для стеков,
+ * сохраненных без явного размера
+ */
+export function getDocumentSize(layers: Array<{ imageData: ImageData | null }>): DocumentSize | null {
+  const base = layers.find(layer => layer.imageData)?.imageData;
+  return base ? { width: base.width, height: base.height } : null;
+}
+
+/**
+ * Смещение, при котором изображение оказывается по центру документа
+ */
+export function getCenteredOffset(width: number, height: number, document: DocumentSize): LayerOffset {
+  return {
+    x: Math.floor((document.width - width) / 2),
+    y: Math.floor((document.height - height) / 2)
+  };
+}
+
+/**
+ * Сдвигает слой; связанная маска сдвигается вместе с ним
+ * @returns Изменения для слоя
+ */
+export function getLayerMoveUpdates(
+  layer: { x?: number; y?: number; mask?: LayerMask },
+  dx: number,
+  dy: number
+): { x: number; y: number; mask?: LayerMask } {
+  const updates: { x: number; y: number; mask?: LayerMask } = {
+    x: (layer.x ?? 0) + dx,
+    y: (layer.y ?? 0) + dy
+  };
+
+  if (layer.mask?.linked) {
+    updates.mask = { ...layer.mask, x: (layer.mask.x ?? 0) + dx, y: (layer.mask.y ?? 0) + dy };
+  }
+
+  return updates;
+}
+
+/**
+ * Переносит пиксели слоя на прозрачное изображение размером с документ
+ * Выходящие за документ части обрезаются
+ * @returns Новое изображение или исходное, если слой уже совпадает с документом
+ */
+export function placeLayerImage(imageData: ImageData, x: number, y: number, document: DocumentSize): ImageData {
+  const { width, height } = document;
+  if (x === 0 && y === 0 && imageData.width === width && imageData.height === height) {
+    return imageData;
+  }
+
+  const result = new ImageData(width, height);
+  const left = Math.max(0, x);
+  const right = Math.min(width, x + imageData.width);
+  if (right <= left) return result;
+
+  for (let row = Math.max(0, y); row < Math.min(height, y + imageData.height); row++) {
+    const sourceStart = ((row - y) * imageData.width + (left - x)) * 4;
+    result.data.set(imageData.data.subarray(sourceStart, sourceStart + (right - left) * 4), (row * width + left) * 4);
+  }
+
+  return result;
+}
+
+/**
+ * Положение и размер слоя после масштабирования документа
+ * @param sx Коэффициент масштабирования по горизонтали
+ * @param sy Коэффициент масштабирования по вертикали
+ */
+export function scaleLayerBounds(
+  bounds: LayerOffset & DocumentSize,
+  sx: number,
+  sy: number
+): LayerOffset & DocumentSize {
+  // Края слоя масштабируются отдельно, чтобы соседние слои не расходились
+  const left = Math.round(bounds.x * sx);
+  const top = Math.round(bounds.y * sy);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, Math.round((bounds.x + bounds.width) * sx) - left),
+    height: Math.max(1, Math.round((bounds.y + bounds.height) * sy) - top)
+  };
+}
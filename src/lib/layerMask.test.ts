@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { applyLayerMasks, createLayerMask, createMaskFromChannel, getMaskValues, maskToImageData, resizeLayerMask } from './layerMask';
+
+// Маска 2×1: левый пиксель скрыт, правый виден наполовину
+const createMask = () => ({ ...createLayerMask(2, 1), data: new Uint8ClampedArray([0, 128]) });
+
+const alphaOf = (image: ImageData) => Array.from(image.data.filter((_, i) => i % 4 === 3));
+
+describe('getMaskValues', () => {
+  it('инвертирует значения и открывает пиксели за пределами маски', () => {
+    expect(Array.from(getMaskValues(createMask(), 3, 2))).toEqual([0, 128, 255, 255, 255, 255]);
+    expect(Array.from(getMaskValues({ ...createMask(), inverted: true }, 2, 1))).toEqual([255, 127]);
+  });
+
+  it('учитывает положение маски и изображения в документе', () => {
+    // Маска в точке (3, 0), изображение 3×1 в точке (2, 0)
+    expect(Array.from(getMaskValues({ ...createMask(), x: 3 }, 3, 1, 2, 0))).toEqual([255, 0, 128]);
+    expect(Array.from(getMaskValues({ ...createMask(), y: 1 }, 2, 1))).toEqual([255, 255]);
+  });
+});
+
+describe('applyLayerMasks', () => {
+  it('умножает прозрачность на значения маски', () => {
+    const image = new ImageData(new Uint8ClampedArray([10, 20, 30, 255, 10, 20, 30, 200]), 2, 1);
+    const result = applyLayerMasks(image, [createMask()]);
+
+    expect(alphaOf(result)).toEqual([0, 100]);
+    expect(Array.from(result.data.subarray(4, 7))).toEqual([10, 20, 30]);
+    // Исходное изображение не изменяется
+    expect(alphaOf(image)).toEqual([255, 200]);
+  });
+
+  it('пропускает выключенные маски', () => {
+    const image = new ImageData(new Uint8ClampedArray(8).fill(255), 2, 1);
+    expect(applyLayerMasks(image, [{ ...createMask(), enabled: false }])).toBe(image);
+  });
+});
+
+describe('создание и преобразование масок', () => {
+  it('копирует значения альфа-канала', () => {
+    const channel = { id: 'a', name: 'Канал', visible: true, width: 2, height: 1, data: new Uint8ClampedArray([5, 6]) };
+    const mask = createMaskFromChannel(channel);
+
+    expect(mask).toMatchObject({ width: 2, height: 1, enabled: true, inverted: false, linked: true });
+    mask.data[0] = 0;
+    expect(channel.data[0]).toBe(5);
+  });
+
+  it('строит полутоновое превью с учетом инверсии', () => {
+    const preview = maskToImageData({ ...createMask(), inverted: true });
+    expect(Array.from(preview.data)).toEqual([255, 255, 255, 255, 127, 127, 127, 255]);
+  });
+
+  it('масштабирует маску, сохраняя параметры', () => {
+    const resized = resizeLayerMask({ ...createMask(), inverted: true }, 4, 2, 'nearest');
+    expect([resized.width, resized.height, resized.inverted]).toEqual([4, 2, true]);
+    expect(Array.from(resized.data)).toEqual([0, 0, 128, 128, 0, 0, 128, 128]);
+  });
+});
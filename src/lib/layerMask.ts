@@ -0,0 +1,141 @@
+// Маски слоев: значения непрозрачности в формате альфа-канала
+// (1 байт на пиксель, 0 — слой скрыт, 255 — виден)
+
+import type { AlphaChannel } from '@/context/EditorContext';
+import { resizeImage } from './interpolation';
+
+export interface LayerMask extends Pick<AlphaChannel, 'data' | 'width' | 'height'> {
+  // Выключенная маска хранится, но не влияет на сведение
+  enabled: boolean;
+  // Значения маски используются в обратном порядке
+  inverted: boolean;
+  // Маска перемещается вместе со слоем
+  linked: boolean;
+  // Положение левого верхнего угла маски в документе
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Создает маску, заполненную одним значением (255 — слой полностью виден)
+ */
+export function createLayerMask(width: number, height: number, value: number = 255, x: number = 0, y: number = 0): LayerMask {
+  return {
+    data: new Uint8ClampedArray(width * height).fill(value),
+    width,
+    height,
+    enabled: true,
+    inverted: false,
+    linked: true,
+    x,
+    y
+  };
+}
+
+/**
+ * Создает маску из альфа-канала
+ */
+export function createMaskFromChannel(channel: AlphaChannel): LayerMask {
+  return { ...createLayerMask(channel.width, channel.height), data: new Uint8ClampedArray(channel.data) };
+}
+
+/**
+ * Значения маски для каждого пикселя изображения с учетом инверсии
+ * За пределами маски слой остается видимым
+ * @param mask Маска слоя
+ * @param width Ширина изображения
+ * @param height Высота изображения
+ * @param x Положение изображения в документе по горизонтали
+ * @param y Положение изображения в документе по вертикали
+ * @returns 1 байт на пиксель изображения
+ */
+export function getMaskValues(mask: LayerMask, width: number, height: number, x: number = 0, y: number = 0): Uint8ClampedArray {
+  const values = new Uint8ClampedArray(width * height).fill(255);
+  // Смещение маски относительно изображения
+  const dx = (mask.x ?? 0) - x;
+  const dy = (mask.y ?? 0) - y;
+  const left = Math.max(0, dx);
+  const right = Math.min(width, dx + mask.width);
+
+  if (right > left) {
+    for (let row = Math.max(0, dy); row < Math.min(height, dy + mask.height); row++) {
+      const maskStart = (row - dy) * mask.width + (left - dx);
+      values.set(mask.data.subarray(maskStart, maskStart + right - left), row * width + left);
+    }
+  }
+
+  if (mask.inverted) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] = 255 - values[i];
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Применяет маски к прозрачности изображения
+ * @param imageData Исходное изображение (не изменяется)
+ * @param masks Маски; выключенные пропускаются
+ * @param x Положение изображения в документе по горизонтали
+ * @param y Положение изображения в документе по вертикали
+ * @returns Новое изображение или исходное, если включенных масок нет
+ */
+export function applyLayerMasks(imageData: ImageData, masks: LayerMask[], x: number = 0, y: number = 0): ImageData {
+  const enabled = masks.filter(mask => mask.enabled);
+  if (enabled.length === 0) return imageData;
+
+  const { width, height } = imageData;
+  const data = new Uint8ClampedArray(imageData.data);
+
+  for (const mask of enabled) {
+    const values = getMaskValues(mask, width, height, x, y);
+    for (let i = 0; i < values.length; i++) {
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * values[i] / 255);
+    }
+  }
+
+  return new ImageData(data, width, height);
+}
+
+/**
+ * Переводит маску в полутоновое изображение для превью
+ */
+export function maskToImageData(mask: LayerMask): ImageData {
+  const values = getMaskValues(mask, mask.width, mask.height, mask.x, mask.y);
+  const data = new Uint8ClampedArray(values.length * 4);
+
+  for (let i = 0; i < values.length; i++) {
+    data[i * 4] = values[i];
+    data[i * 4 + 1] = values[i];
+    data[i * 4 + 2] = values[i];
+    data[i * 4 + 3] = 255;
+  }
+
+  return new ImageData(data, mask.width, mask.height);
+}
+
+/**
+ * Масштабирует маску вместе с документом
+ */
+export function resizeLayerMask(
+  mask: LayerMask,
+  width: number,
+  height: number,
+  method: 'nearest' | 'bilinear'
+): LayerMask {
+  // Значения маски проходят через интерполяцию как яркость непрозрачного изображения
+  const source = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    source.data.fill(mask.data[i], i * 4, i * 4 + 3);
+    source.data[i * 4 + 3] = 255;
+  }
+
+  const resized = resizeImage(source, mask.width, mask.height, width, height, method);
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = resized.data[i * 4];
+  }
+
+  return { ...mask, data, width, height };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getDescendantIds, getLayerTreeRows, groupLayersByParent } from './layerTree';
+
+// Снизу вверх: фон, группа A с вложенными слоем и группой B, слой в B, верхний слой
+const layers = [
+  { id: 'background' },
+  { id: 'a', isGroup: true },
+  { id: 'a-layer', parentId: 'a' },
+  { id: 'b', isGroup: true, parentId: 'a' },
+  { id: 'b-layer', parentId: 'b' },
+  { id: 'top' }
+];
+
+describe('groupLayersByParent', () => {
+  it('сохраняет порядок слоев внутри уровня', () => {
+    const children = groupLayersByParent(layers);
+    expect(children.get(undefined)!.map(layer => layer.id)).toEqual(['background', 'a', 'top']);
+    expect(children.get('a')!.map(layer => layer.id)).toEqual(['a-layer', 'b']);
+  });
+
+  it('переносит слои без существующей группы на верхний уровень', () => {
+    const children = groupLayersByParent([{ id: 'orphan', parentId: 'missing' }]);
+    expect(children.get(undefined)!.map(layer => layer.id)).toEqual(['orphan']);
+  });
+});
+
+describe('getDescendantIds', () => {
+  it('находит слои на любой глубине вложенности', () => {
+    expect([...getDescendantIds(layers, 'a')].sort()).toEqual(['a-layer', 'b', 'b-layer']);
+    expect(getDescendantIds(layers, 'top').size).toBe(0);
+  });
+});
+
+describe('getLayerTreeRows', () => {
+  it('перечисляет слои сверху вниз с глубиной', () => {
+    expect(getLayerTreeRows(layers).map(({ layer, depth }) => `${layer.id}:${depth}`))
+      .toEqual(['top:0', 'a:0', 'b:1', 'b-layer:2', 'a-layer:1', 'background:0']);
+  });
+
+  it('пропускает содержимое свернутых групп', () => {
+    const rows = getLayerTreeRows(layers.map(layer => (layer.id === 'a' ? { ...layer, collapsed: true } : layer)));
+    expect(rows.map(({ layer }) => layer.id)).toEqual(['top', 'a', 'background']);
+  });
+});
@@ -0,0 +1,82 @@
+// Дерево слоев: группы хранятся в общем списке слоев, вложенные слои
+// ссылаются на группу через parentId. Порядок слоев внутри группы —
+// их порядок в общем списке (снизу вверх)
+
+export interface LayerTreeNode {
+  id: string;
+  isGroup?: boolean;
+  parentId?: string;
+  collapsed?: boolean;
+}
+
+// Строка панели слоев: слой и глубина вложенности
+export interface LayerTreeRow<T extends LayerTreeNode> {
+  layer: T;
+  depth: number;
+}
+
+/**
+ * Группирует слои по родительской группе, сохраняя порядок снизу вверх
+ * Слои, чья группа отсутствует в списке, считаются слоями верхнего уровня
+ * @returns Отображение id группы (undefined — верхний уровень) → вложенные слои
+ */
+export function groupLayersByParent<T extends { id?: string; parentId?: string }>(
+  layers: T[]
+): Map<string | undefined, T[]> {
+  const ids = new Set(layers.map(layer => layer.id));
+  const children = new Map<string | undefined, T[]>();
+
+  for (const layer of layers) {
+    const parentId = layer.parentId && ids.has(layer.parentId) ? layer.parentId : undefined;
+    const siblings = children.get(parentId);
+    if (siblings) {
+      siblings.push(layer);
+    } else {
+      children.set(parentId, [layer]);
+    }
+  }
+
+  return children;
+}
+
+/**
+ * Возвращает id всех слоев, вложенных в группу на любую глубину
+ */
+export function getDescendantIds(layers: LayerTreeNode[], groupId: string): Set<string> {
+  const children = groupLayersByParent(layers);
+  const result = new Set<string>();
+  const stack = [groupId];
+
+  while (stack.length > 0) {
+    for (const child of children.get(stack.pop()) ?? []) {
+      if (!result.has(child.id)) {
+        result.add(child.id);
+        stack.push(child.id);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Строки панели слоев сверху вниз; содержимое свернутых групп пропускается
+ */
+export function getLayerTreeRows<T extends LayerTreeNode>(layers: T[]): LayerTreeRow<T>[] {
+  const children = groupLayersByParent(layers);
+  const rows: LayerTreeRow<T>[] = [];
+
+  const visit = (parentId: string | undefined, depth: number) => {
+    const siblings = children.get(parentId) ?? [];
+    for (let i = siblings.length - 1; i >= 0; i--) {
+      const layer = siblings[i];
+      rows.push({ layer, depth });
+      if (layer.isGroup && !layer.collapsed) {
+        visit(layer.id, depth + 1);
+      }
+    }
+  };
+
+  visit(undefined, 0);
+  return rows;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { lzwDecode, lzwEncode, TIFF_LZW, type LZWOptions } from './lzw';
+
+// Разбирает поток 9-битных кодов (старшие биты вперёд)
+function readCodes9(data: Uint8Array, count: number): number[] {
+  const codes: number[] = [];
+  for (let i = 0, bit = 0; i < count; i++) {
+    let code = 0;
+    for (let b = 0; b < 9; b++, bit++) {
+      code = (code << 1) | ((data[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    codes.push(code);
+  }
+  return codes;
+}
+
+const GIF_LZW: LZWOptions = { minCodeSize: 8, bitOrder: 'lsb', earlyChange: false };
+
+describe('lzwEncode', () => {
+  it('должен совпадать с примером из спецификации TIFF', () => {
+    const encoded = lzwEncode(new Uint8Array([7, 7, 7, 8, 8, 7, 7, 6, 6]), TIFF_LZW);
+
+    expect(readCodes9(encoded, 9)).toEqual([256, 7, 258, 8, 8, 258, 6, 6, 257]);
+  });
+});
+
+describe('lzwDecode', () => {
+  it.each([
+    ['TIFF', TIFF_LZW],
+    ['GIF', GIF_LZW]
+  ])('%s: должен восстанавливать данные со сменой длины кода и сбросом таблицы', (_, options) => {
+    // Псевдослучайные данные быстро заполняют таблицу до 4096 кодов
+    const data = new Uint8Array(60000);
+    let seed = 1;
+    for (let i = 0; i < data.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      data[i] = i % 7 === 0 ? 0 : (seed >> 16) & 0x3f;
+    }
+
+    const decoded = lzwDecode(lzwEncode(data, options), data.length, options);
+
+    expect(decoded).toEqual(data);
+  });
+
+  it('должен восстанавливать короткие и повторяющиеся данные', () => {
+    for (const data of [[], [42], [1, 1, 1, 1, 1, 1, 1, 1, 1, 1], [0, 1, 0, 1, 0, 1, 0, 1]]) {
+      const bytes = new Uint8Array(data);
+
+      expect(lzwDecode(lzwEncode(bytes, TIFF_LZW), bytes.length, TIFF_LZW)).toEqual(bytes);
+    }
+  });
+
+  it('должен поддерживать малую разрядность символов', () => {
+    const options: LZWOptions = { minCodeSize: 2, bitOrder: 'lsb', earlyChange: false };
+    const data = new Uint8Array(500).map((_, i) => (i * 7 + (i >> 3)) % 4);
+
+    expect(lzwDecode(lzwEncode(data, options), data.length, options)).toEqual(data);
+  });
+
+  it('должен отклонять повреждённый поток', () => {
+    // Код очистки, затем код 300, которого нет в таблице
+    const corrupt = new Uint8Array([0x80, 0x4b, 0x00, 0x00]);
+
+    expect(() => lzwDecode(corrupt, 10, TIFF_LZW)).toThrow('Повреждённые данные LZW');
+  });
+});
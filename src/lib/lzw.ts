@@ -0,0 +1,244 @@
+// Сжатие LZW с кодами переменной длины (до 12 бит)
+// Используется в TIFF и GIF; форматы различаются порядком бит и моментом увеличения длины кода
+
+export interface LZWOptions {
+  // Разрядность исходных символов: 8 для TIFF, 2–8 для GIF
+  minCodeSize: number;
+  // Порядок бит в потоке: TIFF — старшие вперёд, GIF — младшие вперёд
+  bitOrder: 'msb' | 'lsb';
+  // TIFF увеличивает длину кода на один код раньше, чем GIF
+  earlyChange: boolean;
+}
+
+export const TIFF_LZW: LZWOptions = { minCodeSize: 8, bitOrder: 'msb', earlyChange: true };
+
+const MAX_CODE_WIDTH = 12;
+const MAX_CODES = 1 << MAX_CODE_WIDTH;
+// Таблица сбрасывается заранее, чтобы декодер не вышел за 4096 записей
+const TABLE_LIMIT = MAX_CODES - 2;
+
+class BitWriter {
+  private buffer: Uint8Array;
+  private length = 0;
+  private accumulator = 0;
+  private bitCount = 0;
+  private readonly msbFirst: boolean;
+
+  constructor(msbFirst: boolean, capacity: number) {
+    this.msbFirst = msbFirst;
+    this.buffer = new Uint8Array(Math.max(capacity, 16));
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+
+  write(code: number, width: number): void {
+    if (this.msbFirst) {
+      this.accumulator = (this.accumulator << width) | code;
+      this.bitCount += width;
+      while (this.bitCount >= 8) {
+        this.bitCount -= 8;
+        this.pushByte((this.accumulator >>> this.bitCount) & 0xff);
+      }
+      this.accumulator &= (1 << this.bitCount) - 1;
+    } else {
+      this.accumulator |= code << this.bitCount;
+      this.bitCount += width;
+      while (this.bitCount >= 8) {
+        this.pushByte(this.accumulator & 0xff);
+        this.accumulator >>>= 8;
+        this.bitCount -= 8;
+      }
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.pushByte(this.msbFirst
+        ? (this.accumulator << (8 - this.bitCount)) & 0xff
+        : this.accumulator & 0xff);
+      this.accumulator = 0;
+      this.bitCount = 0;
+    }
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Сжимает данные алгоритмом LZW
+ * @param data Символы (значения меньше 2^minCodeSize)
+ * @param options Вариант LZW (TIFF или GIF)
+ * @returns Поток кодов, начинающийся с кода очистки и заканчивающийся кодом конца данных
+ */
+export function lzwEncode(data: Uint8Array, options: LZWOptions): Uint8Array {
+  const clearCode = 1 << options.minCodeSize;
+  const endCode = clearCode + 1;
+  const switchOffset = options.earlyChange ? 0 : 1;
+  const writer = new BitWriter(options.bitOrder === 'msb', data.length);
+
+  // Ключ записи: код префикса × 256 + следующий символ
+  const table = new Map<number, number>();
+  let width = options.minCodeSize + 1;
+  let next = endCode + 1;
+
+  const addEntry = () => {
+    next++;
+    if (next === (1 << width) + switchOffset && width < MAX_CODE_WIDTH) {
+      width++;
+    }
+  };
+
+  writer.write(clearCode, width);
+
+  if (data.length === 0) {
+    writer.write(endCode, width);
+    return writer.finish();
+  }
+
+  let current = data[0];
+
+  for (let i = 1; i < data.length; i++) {
+    const symbol = data[i];
+    const key = current * 256 + symbol;
+    const existing = table.get(key);
+
+    if (existing !== undefined) {
+      current = existing;
+      continue;
+    }
+
+    writer.write(current, width);
+    table.set(key, next);
+    addEntry();
+
+    if (next >= TABLE_LIMIT) {
+      writer.write(clearCode, width);
+      table.clear();
+      width = options.minCodeSize + 1;
+      next = endCode + 1;
+    }
+
+    current = symbol;
+  }
+
+  writer.write(current, width);
+  // Декодер добавит запись после последнего кода — длина кода конца данных должна это учесть
+  addEntry();
+  writer.write(endCode, width);
+
+  return writer.finish();
+}
+
+/**
+ * Распаковывает данные LZW
+ * @param data Поток кодов
+ * @param expectedLength Количество символов, которое нужно получить
+ * @param options Вариант LZW (TIFF или GIF)
+ * @returns Распакованные символы; при раннем конце данных недостающие остаются нулями
+ */
+export function lzwDecode(data: Uint8Array, expectedLength: number, options: LZWOptions): Uint8Array {
+  const clearCode = 1 << options.minCodeSize;
+  const endCode = clearCode + 1;
+  const switchOffset = options.earlyChange ? 1 : 0;
+  const msbFirst = options.bitOrder === 'msb';
+
+  const prefix = new Int32Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const first = new Uint8Array(MAX_CODES);
+  const lengths = new Uint16Array(MAX_CODES);
+  for (let i = 0; i < clearCode; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    lengths[i] = 1;
+  }
+
+  const output = new Uint8Array(expectedLength);
+  let outPos = 0;
+  let width = options.minCodeSize + 1;
+  let next = endCode + 1;
+  let previous = -1;
+
+  let bitPos = 0;
+  const totalBits = data.length * 8;
+
+  const readCode = (): number => {
+    let code = 0;
+    if (msbFirst) {
+      for (let i = 0; i < width; i++, bitPos++) {
+        code = (code << 1) | ((data[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+      }
+    } else {
+      for (let i = 0; i < width; i++, bitPos++) {
+        code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+      }
+    }
+    return code;
+  };
+
+  // Записывает строку кода в выходной буфер (с конца к началу)
+  const writeString = (code: number) => {
+    const length = lengths[code];
+    let pos = outPos + length - 1;
+    for (let c = code; c !== -1; c = prefix[c], pos--) {
+      if (pos < expectedLength) output[pos] = suffix[c];
+    }
+    outPos += length;
+  };
+
+  while (outPos < expectedLength && bitPos + width <= totalBits) {
+    const code = readCode();
+
+    if (code === clearCode) {
+      width = options.minCodeSize + 1;
+      next = endCode + 1;
+      previous = -1;
+      continue;
+    }
+
+    if (code === endCode) {
+      break;
+    }
+
+    if (previous === -1) {
+      if (code >= clearCode) {
+        throw new Error('Повреждённые данные LZW');
+      }
+      writeString(code);
+      previous = code;
+      continue;
+    }
+
+    let firstSymbol: number;
+    if (code < next) {
+      firstSymbol = first[code];
+    } else if (code === next) {
+      firstSymbol = first[previous];
+    } else {
+      throw new Error('Повреждённые данные LZW');
+    }
+
+    if (next < MAX_CODES) {
+      prefix[next] = previous;
+      suffix[next] = firstSymbol;
+      first[next] = first[previous];
+      lengths[next] = lengths[previous] + 1;
+      next++;
+    }
+
+    writeString(code);
+    previous = code;
+
+    if (next + switchOffset >= 1 << width && width < MAX_CODE_WIDTH) {
+      width++;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { decodeNetpbm, encodeNetpbm } from './netpbm';
+import type { DecodedImage } from './decodedImage';
+
+const toBuffer = (bytes: Uint8Array | string): ArrayBuffer => {
+  const data = typeof bytes === 'string' ? new TextEncoder().encode(bytes) : bytes;
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+};
+
+const withHeader = (header: string, body: number[]): ArrayBuffer => {
+  const headerBytes = new TextEncoder().encode(header);
+  const result = new Uint8Array(headerBytes.length + body.length);
+  result.set(headerBytes, 0);
+  result.set(body, headerBytes.length);
+  return result.buffer;
+};
+
+// Изображение 2×1: красный непрозрачный и синий полупрозрачный пиксели
+const createImage = (): DecodedImage => ({
+  width: 2,
+  height: 1,
+  data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 128])
+});
+
+describe('decodeNetpbm', () => {
+  it('должен читать текстовый PGM с комментариями', () => {
+    const image = decodeNetpbm(toBuffer('P2\n# комментарий\n2 1\n# ещё один\n15\n0 15\n'));
+
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect(Array.from(image.data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('должен читать текстовый PPM', () => {
+    const image = decodeNetpbm(toBuffer('P3 1 1 255 10 20 30'));
+
+    expect(Array.from(image.data)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('должен читать двоичный PGM', () => {
+    const image = decodeNetpbm(withHeader('P5\n2 1\n255\n', [32, 200]));
+
+    expect(Array.from(image.data)).toEqual([32, 32, 32, 255, 200, 200, 200, 255]);
+  });
+
+  it('должен масштабировать 16-битные отсчёты до 8 бит', () => {
+    const image = decodeNetpbm(withHeader('P6\n1 1\n65535\n', [0xff, 0xff, 0x80, 0x00, 0x00, 0x00]));
+
+    expect(Array.from(image.data)).toEqual([255, 128, 0, 255]);
+  });
+
+  it('должен читать PAM с альфа-каналом оттенков серого', () => {
+    const header = 'P7\nWIDTH 1\nHEIGHT 1\nDEPTH 2\nMAXVAL 255\nTUPLTYPE GRAYSCALE_ALPHA\nENDHDR\n';
+    const image = decodeNetpbm(withHeader(header, [100, 50]));
+
+    expect(Array.from(image.data)).toEqual([100, 100, 100, 50]);
+  });
+
+  it('должен отклонять неподдерживаемые варианты', () => {
+    expect(() => decodeNetpbm(toBuffer('P1\n1 1\n0\n'))).toThrow('Неподдерживаемый вариант Netpbm');
+  });
+
+  it('должен отклонять обрезанные данные', () => {
+    expect(() => decodeNetpbm(withHeader('P6\n2 2\n255\n', [1, 2, 3]))).toThrow('обрезан');
+  });
+
+  it('должен отклонять слишком длинные значения заголовка', () => {
+    const junk = new Array(200000).fill(0x41);
+    expect(() => decodeNetpbm(withHeader('P5\n', junk))).toThrow('слишком длинное значение');
+    expect(() => decodeNetpbm(withHeader('P7\n', junk))).toThrow('слишком длинное значение');
+  });
+
+  it('должен отклонять нецелые и отрицательные значения заголовка PAM', () => {
+    const pam = (width: string, maxval: string) =>
+      toBuffer(`P7\nWIDTH ${width}\nHEIGHT 1\nDEPTH 1\nMAXVAL ${maxval}\nENDHDR\n\0\0`);
+
+    expect(() => decodeNetpbm(pam('abc', '255'))).toThrow('Некорректное значение ширины');
+    expect(() => decodeNetpbm(pam('-4', '255'))).toThrow('Некорректное значение ширины');
+    expect(() => decodeNetpbm(pam('2', '1.5'))).toThrow('Некорректное значение максимального значения');
+    expect(() => decodeNetpbm(pam('0', '255'))).toThrow('Недопустимый размер');
+  });
+
+  it('должен отклонять PAM без ENDHDR', () => {
+    expect(() => decodeNetpbm(toBuffer('P7\nWIDTH 1\nHEIGHT 1\n'))).toThrow('ENDHDR');
+  });
+});
+
+describe('encodeNetpbm', () => {
+  it('PAM должен сохранять RGBA без потерь', () => {
+    const image = createImage();
+    const decoded = decodeNetpbm(toBuffer(encodeNetpbm(image, 'pam')));
+
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it.each([false, true])('PPM (ascii: %s) должен сохранять цвет и отбрасывать прозрачность', (ascii) => {
+    const encoded = encodeNetpbm(createImage(), 'ppm', { ascii });
+    const decoded = decodeNetpbm(toBuffer(encoded));
+
+    expect(String.fromCharCode(encoded[0], encoded[1])).toBe(ascii ? 'P3' : 'P6');
+    expect(Array.from(decoded.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it('PGM должен сохранять яркость', () => {
+    const decoded = decodeNetpbm(toBuffer(encodeNetpbm(createImage(), 'pgm')));
+
+    expect(Array.from(decoded.data)).toEqual([54, 54, 54, 255, 18, 18, 18, 255]);
+  });
+
+  it('текстовые строки не должны превышать 70 символов', () => {
+    const image: DecodedImage = {
+      width: 64,
+      height: 1,
+      data: new Uint8ClampedArray(64 * 4).fill(255)
+    };
+    const text = new TextDecoder().decode(encodeNetpbm(image, 'pgm', { ascii: true }));
+
+    expect(text.split('\n').every(line => line.length <= 70)).toBe(true);
+  });
+});
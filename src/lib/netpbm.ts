@@ -0,0 +1,288 @@
+// Форматы Netpbm: PGM (P2/P5), PPM (P3/P6) и PAM (P7)
+// Чтение и запись без обращения к DOM
+
+import type { DecodedImage } from './decodedImage';
+
+export type NetpbmFormat = 'pgm' | 'ppm' | 'pam';
+
+export interface NetpbmEncodeOptions {
+  // Текстовый вариант (P2/P3) вместо двоичного (P5/P6); для PAM не используется
+  ascii?: boolean;
+}
+
+export const NETPBM_EXTENSIONS = ['.pgm', '.ppm', '.pnm', '.pam'];
+
+const WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0b, 0x0c, 0x0d]);
+const COMMENT = 0x23; // '#'
+const ASCII_LINE_LENGTH = 70;
+// Предельная длина лексемы и строки заголовка: длиннее бывают только в поврежденных файлах
+const MAX_HEADER_TOKEN_LENGTH = 1024;
+
+// Целое неотрицательное значение заголовка
+function parseHeaderInt(token: string, name: string): number {
+  const value = Number(token);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Некорректное значение ${name} в заголовке Netpbm: ${token}`);
+  }
+  return value;
+}
+
+// Последовательное чтение лексем заголовка с пропуском пробелов и комментариев
+class TokenReader {
+  position = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  private skipWhitespaceAndComments(): void {
+    const { bytes } = this;
+    while (this.position < bytes.length) {
+      const byte = bytes[this.position];
+      if (byte === COMMENT) {
+        while (this.position < bytes.length && bytes[this.position] !== 0x0a && bytes[this.position] !== 0x0d) {
+          this.position++;
+        }
+      } else if (WHITESPACE.has(byte)) {
+        this.position++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  next(): string {
+    this.skipWhitespaceAndComments();
+    const start = this.position;
+    while (this.position < this.bytes.length && !WHITESPACE.has(this.bytes[this.position])) {
+      this.position++;
+    }
+    if (start === this.position) {
+      throw new Error('Неожиданный конец файла Netpbm');
+    }
+    return this.text(start, this.position);
+  }
+
+  nextInt(name: string): number {
+    return parseHeaderInt(this.next(), name);
+  }
+
+  // Читает остаток строки (для заголовка PAM)
+  line(): string {
+    const start = this.position;
+    while (this.position < this.bytes.length && this.bytes[this.position] !== 0x0a) {
+      this.position++;
+    }
+    const text = this.text(start, this.position);
+    this.position++;
+    return text.trim();
+  }
+
+  private text(start: number, end: number): string {
+    if (end - start > MAX_HEADER_TOKEN_LENGTH) {
+      throw new Error('Заголовок Netpbm поврежден: слишком длинное значение');
+    }
+    return String.fromCharCode(...this.bytes.subarray(start, end));
+  }
+}
+
+function validateDimensions(width: number, height: number, maxval: number): void {
+  if (!Number.isInteger(width) || width <= 0 || !Number.isInteger(height) || height <= 0) {
+    throw new Error(`Недопустимый размер изображения Netpbm: ${width}×${height}`);
+  }
+  if (!Number.isInteger(maxval) || maxval < 1 || maxval > 65535) {
+    throw new Error(`Недопустимое максимальное значение Netpbm: ${maxval}`);
+  }
+}
+
+// Преобразует отсчёты с произвольным maxval в RGBA 8 бит
+function samplesToRGBA(
+  readSample: (index: number) => number,
+  width: number,
+  height: number,
+  depth: number,
+  maxval: number
+): Uint8ClampedArray {
+  const pixelCount = width * height;
+  const data = new Uint8ClampedArray(pixelCount * 4);
+  const scale = (value: number) => Math.round(Math.min(value, maxval) * 255 / maxval);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const base = i * depth;
+    const pos = i * 4;
+
+    if (depth >= 3) {
+      data[pos] = scale(readSample(base));
+      data[pos + 1] = scale(readSample(base + 1));
+      data[pos + 2] = scale(readSample(base + 2));
+      data[pos + 3] = depth === 4 ? scale(readSample(base + 3)) : 255;
+    } else {
+      const gray = scale(readSample(base));
+      data[pos] = gray;
+      data[pos + 1] = gray;
+      data[pos + 2] = gray;
+      data[pos + 3] = depth === 2 ? scale(readSample(base + 1)) : 255;
+    }
+  }
+
+  return data;
+}
+
+// Возвращает функцию чтения двоичных отсчётов (1 или 2 байта big-endian)
+function binarySampleReader(bytes: Uint8Array, offset: number, count: number, maxval: number) {
+  const bytesPerSample = maxval > 255 ? 2 : 1;
+  if (offset + count * bytesPerSample > bytes.length) {
+    throw new Error('Файл Netpbm обрезан');
+  }
+  return bytesPerSample === 2
+    ? (index: number) => (bytes[offset + index * 2] << 8) | bytes[offset + index * 2 + 1]
+    : (index: number) => bytes[offset + index];
+}
+
+function decodePAM(reader: TokenReader, bytes: Uint8Array): DecodedImage {
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  let maxval = 0;
+  let tupleType = '';
+
+  reader.line();
+  for (;;) {
+    if (reader.position >= bytes.length) {
+      throw new Error('В заголовке PAM отсутствует ENDHDR');
+    }
+    const line = reader.line();
+    if (line === '' || line.startsWith('#')) continue;
+    if (line === 'ENDHDR') break;
+
+    const [key, ...rest] = line.split(/\s+/);
+    const value = rest.join(' ');
+    switch (key) {
+      case 'WIDTH': width = parseHeaderInt(value, 'ширины'); break;
+      case 'HEIGHT': height = parseHeaderInt(value, 'высоты'); break;
+      case 'DEPTH': depth = parseHeaderInt(value, 'глубины'); break;
+      case 'MAXVAL': maxval = parseHeaderInt(value, 'максимального значения'); break;
+      case 'TUPLTYPE': tupleType = value; break;
+    }
+  }
+
+  validateDimensions(width, height, maxval);
+  if (depth < 1 || depth > 4) {
+    throw new Error(`Неподдерживаемая глубина PAM: ${depth} (${tupleType || 'без типа'})`);
+  }
+
+  const sampleCount = width * height * depth;
+  const readSample = binarySampleReader(bytes, reader.position, sampleCount, maxval);
+  return { width, height, data: samplesToRGBA(readSample, width, height, depth, maxval) };
+}
+
+/**
+ * Декодирует файл Netpbm (P2, P3, P5, P6, P7)
+ * @param buffer Содержимое файла
+ * @returns Изображение в RGBA; 16-битные отсчёты масштабируются до 8 бит
+ */
+export function decodeNetpbm(buffer: ArrayBuffer): DecodedImage {
+  const bytes = new Uint8Array(buffer);
+  const reader = new TokenReader(bytes);
+  const magic = reader.next();
+
+  if (magic === 'P7') {
+    return decodePAM(reader, bytes);
+  }
+
+  if (!['P2', 'P3', 'P5', 'P6'].includes(magic)) {
+    throw new Error(`Неподдерживаемый вариант Netpbm: ${magic.slice(0, 2)}`);
+  }
+
+  const width = reader.nextInt('ширины');
+  const height = reader.nextInt('высоты');
+  const maxval = reader.nextInt('максимального значения');
+  validateDimensions(width, height, maxval);
+
+  const depth = magic === 'P3' || magic === 'P6' ? 3 : 1;
+  const sampleCount = width * height * depth;
+
+  if (magic === 'P5' || magic === 'P6') {
+    // После maxval следует ровно один пробельный символ
+    const readSample = binarySampleReader(bytes, reader.position + 1, sampleCount, maxval);
+    return { width, height, data: samplesToRGBA(readSample, width, height, depth, maxval) };
+  }
+
+  const samples = new Uint16Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    samples[i] = reader.nextInt('отсчёта');
+  }
+  return { width, height, data: samplesToRGBA(index => samples[index], width, height, depth, maxval) };
+}
+
+// Разбивает текстовые отсчёты на строки не длиннее 70 символов
+function formatAsciiSamples(samples: ArrayLike<number>): string {
+  const lines: string[] = [];
+  let line = '';
+  for (let i = 0; i < samples.length; i++) {
+    const token = String(samples[i]);
+    if (line.length + token.length + 1 > ASCII_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n') + '\n';
+}
+
+function concatBytes(header: string, body: Uint8Array): Uint8Array {
+  const headerBytes = new TextEncoder().encode(header);
+  const result = new Uint8Array(headerBytes.length + body.length);
+  result.set(headerBytes, 0);
+  result.set(body, headerBytes.length);
+  return result;
+}
+
+/**
+ * Кодирует изображение в формат Netpbm
+ * @param image Изображение в RGBA
+ * @param format 'pgm' — оттенки серого, 'ppm' — RGB, 'pam' — RGBA с прозрачностью
+ * @param options Параметры кодирования
+ * @returns Байты файла
+ */
+export function encodeNetpbm(
+  image: DecodedImage | ImageData,
+  format: NetpbmFormat,
+  options: NetpbmEncodeOptions = {}
+): Uint8Array {
+  const { width, height, data } = image;
+  const pixelCount = width * height;
+
+  if (format === 'pam') {
+    const header = `P7\nWIDTH ${width}\nHEIGHT ${height}\nDEPTH 4\nMAXVAL 255\nTUPLTYPE RGB_ALPHA\nENDHDR\n`;
+    return concatBytes(header, new Uint8Array(data.buffer, data.byteOffset, pixelCount * 4));
+  }
+
+  const depth = format === 'ppm' ? 3 : 1;
+  const samples = new Uint8Array(pixelCount * depth);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const pos = i * 4;
+    if (depth === 3) {
+      samples[i * 3] = data[pos];
+      samples[i * 3 + 1] = data[pos + 1];
+      samples[i * 3 + 2] = data[pos + 2];
+    } else {
+      samples[i] = Math.round(0.2126 * data[pos] + 0.7152 * data[pos + 1] + 0.0722 * data[pos + 2]);
+    }
+  }
+
+  const magic = options.ascii
+    ? (format === 'ppm' ? 'P3' : 'P2')
+    : (format === 'ppm' ? 'P6' : 'P5');
+  const header = `${magic}\n${width} ${height}\n255\n`;
+
+  if (options.ascii) {
+    return new TextEncoder().encode(header + formatAsciiSamples(samples));
+  }
+
+  return concatBytes(header, samples);
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { packBitsEncode, packBitsDecode } from './packBits';
+
+describe('PackBits', () => {
+  it('должен сжимать повторяющиеся байты', () => {
+    const data = new Uint8Array(200).fill(42);
+    const encoded = packBitsEncode(data);
+
+    expect(encoded.length).toBeLessThan(10);
+    expect(packBitsDecode(encoded, data.length).data).toEqual(data);
+  });
+
+  it('должен сохранять данные без повторов', () => {
+    const data = new Uint8Array(300);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = i % 256;
+    }
+
+    const encoded = packBitsEncode(data);
+    const { data: decoded, bytesRead } = packBitsDecode(encoded, data.length);
+
+    expect(decoded).toEqual(data);
+    expect(bytesRead).toBe(encoded.length);
+  });
+
+  it('должен корректно обрабатывать смешанные последовательности', () => {
+    const data = new Uint8Array([1, 2, 3, 3, 3, 3, 4, 5, 5, 6, 0, 0, 0]);
+    const encoded = packBitsEncode(data);
+
+    expect(packBitsDecode(encoded, data.length).data).toEqual(data);
+  });
+
+  it('должен совпадать с эталонным примером PackBits', () => {
+    // Пример из Apple Technical Note TN1023
+    const encoded = new Uint8Array([
+      0xfe, 0xaa, 0x02, 0x80, 0x00, 0x2a, 0xfd, 0xaa, 0x03, 0x80, 0x00, 0x2a, 0x22, 0xf7, 0xaa
+    ]);
+    const expected = new Uint8Array([
+      0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0xaa, 0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0x22,
+      0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa, 0xaa
+    ]);
+
+    expect(packBitsDecode(encoded, expected.length).data).toEqual(expected);
+  });
+
+  it('должен сообщать об обрыве данных', () => {
+    const encoded = new Uint8Array([0x05, 1, 2]);
+
+    expect(() => packBitsDecode(encoded, 6)).toThrow();
+  });
+});
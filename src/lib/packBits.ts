@@ -0,0 +1,98 @@
+// PackBits — байтовое RLE-сжатие (тот же вариант, что используется в TIFF и PSD)
+//
+// Управляющий байт n (со знаком):
+//   0..127    — следующие n + 1 байт копируются как есть
+//   -1..-127  — следующий байт повторяется 1 - n раз
+//   -128      — пропускается
+
+const MAX_RUN = 128;
+
+/**
+ * Сжимает массив байтов алгоритмом PackBits
+ * @param data Исходные байты
+ * @returns Сжатые байты
+ */
+export function packBitsEncode(data: Uint8Array): Uint8Array {
+  const length = data.length;
+  // Худший случай: один управляющий байт на каждые 128 литералов
+  const output = new Uint8Array(length + Math.ceil(length / MAX_RUN) + 1);
+  let outPos = 0;
+  let i = 0;
+
+  while (i < length) {
+    // Ищем повтор текущего байта
+    let runLength = 1;
+    while (i + runLength < length && runLength < MAX_RUN && data[i + runLength] === data[i]) {
+      runLength++;
+    }
+
+    if (runLength >= 2) {
+      output[outPos++] = (1 - runLength) & 0xff;
+      output[outPos++] = data[i];
+      i += runLength;
+      continue;
+    }
+
+    // Собираем литералы до начала следующего повтора
+    const literalStart = i;
+    i++;
+    while (
+      i < length &&
+      i - literalStart < MAX_RUN &&
+      !(i + 1 < length && data[i] === data[i + 1])
+    ) {
+      i++;
+    }
+
+    const literalLength = i - literalStart;
+    output[outPos++] = literalLength - 1;
+    output.set(data.subarray(literalStart, i), outPos);
+    outPos += literalLength;
+  }
+
+  return output.slice(0, outPos);
+}
+
+/**
+ * Распаковывает данные PackBits
+ * @param data Сжатые байты
+ * @param expectedLength Количество байтов, которое нужно получить
+ * @param offset Смещение начала сжатых данных
+ * @returns Распакованные байты и количество прочитанных сжатых байтов
+ */
+export function packBitsDecode(
+  data: Uint8Array,
+  expectedLength: number,
+  offset: number = 0
+): { data: Uint8Array; bytesRead: number } {
+  const output = new Uint8Array(expectedLength);
+  let outPos = 0;
+  let inPos = offset;
+
+  while (outPos < expectedLength) {
+    if (inPos >= data.length) {
+      throw new Error('Неожиданный конец данных PackBits');
+    }
+
+    const header = (data[inPos++] << 24) >> 24;
+
+    if (header >= 0) {
+      const count = header + 1;
+      if (inPos + count > data.length || outPos + count > expectedLength) {
+        throw new Error('Повреждённые данные PackBits');
+      }
+      output.set(data.subarray(inPos, inPos + count), outPos);
+      inPos += count;
+      outPos += count;
+    } else if (header !== -128) {
+      const count = 1 - header;
+      if (inPos >= data.length || outPos + count > expectedLength) {
+        throw new Error('Повреждённые данные PackBits');
+      }
+      output.fill(data[inPos++], outPos, outPos + count);
+      outPos += count;
+    }
+  }
+
+  return { data: output, bytesRead: inPos - offset };
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { decodeGB7, GB7Error, type GB7ErrorKind } from './parseGB7';
+import { encodeGB7 } from './encodeGB7';
+
+// Вспомогательная функция для создания тестового изображения без DOM
+function createTestImage(width: number, height: number, withTransparency = false): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.floor((i % width) / width * 255);
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    data[i * 4 + 3] = withTransparency && i % 3 === 0 ? 0 : 255;
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe('decodeGB7', () => {
+  it('должен декодировать файл версии 1', () => {
+    const image = createTestImage(8, 4);
+    const { header, pixels } = decodeGB7(toArrayBuffer(encodeGB7(image)));
+
+    expect(header).toMatchObject({ version: 1, width: 8, height: 4, hasMask: false, compression: 'none' });
+    expect(pixels.length).toBe(8 * 4 * 4);
+    expect(pixels[3]).toBe(255);
+  });
+
+  it('должен читать Uint8Array только в границах его представления', () => {
+    const encoded = encodeGB7(createTestImage(8, 4));
+    const padded = new Uint8Array(encoded.length + 16).fill(0xff);
+    padded.set(encoded, 8);
+
+    const { pixels } = decodeGB7(padded.subarray(8, 8 + encoded.length));
+    expect(pixels).toEqual(decodeGB7(toArrayBuffer(encoded)).pixels);
+  });
+
+  it('должен декодировать сжатый файл версии 2 так же, как версию 1', () => {
+    const image = createTestImage(16, 16, true);
+    const raw = decodeGB7(toArrayBuffer(encodeGB7(image)));
+    const compressed = decodeGB7(toArrayBuffer(encodeGB7(image, { compression: 'rle' })));
+
+    expect(compressed.header).toMatchObject({ version: 2, hasMask: true, compression: 'rle' });
+    expect(compressed.pixels).toEqual(raw.pixels);
+  });
+
+  it('должен уменьшать размер однотонного изображения при RLE-сжатии', () => {
+    const image = createTestImage(1, 1);
+    const flat = { ...image, width: 64, height: 64, data: new Uint8ClampedArray(64 * 64 * 4).fill(255) } as ImageData;
+
+    expect(encodeGB7(flat, { compression: 'rle' }).length).toBeLessThan(encodeGB7(flat).length / 10);
+  });
+
+  it('должен восстанавливать маску прозрачности', () => {
+    const image = createTestImage(3, 1, true);
+    const { pixels } = decodeGB7(toArrayBuffer(encodeGB7(image)));
+
+    expect(pixels[3]).toBe(0);
+    expect(pixels[7]).toBe(255);
+    expect(pixels[11]).toBe(255);
+  });
+
+  it('должен читать блок метаданных', () => {
+    const metadata = { title: 'Скан №1', author: 'Архив', dpi: '300', created: '2024-05-01T10:00:00.000Z' };
+    const bytes = encodeGB7(createTestImage(4, 4), { compression: 'rle', metadata });
+    const result = decodeGB7(toArrayBuffer(bytes));
+
+    expect(result.metadata).toEqual(metadata);
+    expect(bytes[5] & 0x08).toBe(0x08);
+  });
+
+  it('должен оставлять пиксели версии 1 на прежнем месте при наличии метаданных', () => {
+    const image = createTestImage(4, 4);
+    const plain = encodeGB7(image);
+    const withMetadata = encodeGB7(image, { metadata: { title: 'Документ' } });
+
+    // Старые читатели останавливаются после width × height байт
+    expect(withMetadata.subarray(12, plain.length)).toEqual(plain.subarray(12));
+    expect(decodeGB7(toArrayBuffer(plain)).metadata).toEqual({});
+  });
+
+  it('должен сохранять стек слоёв с их параметрами', () => {
+    const background = createTestImage(4, 4);
+    const overlay = createTestImage(4, 4, true);
+    const bytes = encodeGB7(background, {
+      compression: 'rle',
+      metadata: { title: 'Слои' },
+      layers: [
+        { name: 'Фон', visible: true, opacity: 100, blendMode: 'normal', isBackground: true, imageData: background },
+        { name: 'Тени', visible: false, opacity: 40, blendMode: 'multiply', imageData: overlay }
+      ]
+    });
+    const result = decodeGB7(toArrayBuffer(bytes));
+
+    expect(result.metadata).toEqual({ title: 'Слои' });
+    expect(result.layers).toHaveLength(2);
+    expect(result.layers[0]).toMatchObject({ name: 'Фон', visible: true, isBackground: true, opacity: 100, blendMode: 'normal' });
+    expect(result.layers[1]).toMatchObject({ name: 'Тени', visible: false, isBackground: false, opacity: 40, blendMode: 'multiply' });
+    expect(result.layers[1].header.hasMask).toBe(true);
+    expect(result.layers[0].pixels).toEqual(result.pixels);
+  });
+});
+
+describe('проверка GB7', () => {
+  function expectErrorKind(bytes: Uint8Array, kind: GB7ErrorKind) {
+    try {
+      decodeGB7(toArrayBuffer(bytes));
+    } catch (error) {
+      expect(error).toBeInstanceOf(GB7Error);
+      expect((error as GB7Error).kind).toBe(kind);
+      return;
+    }
+    throw new Error(`Ожидалась ошибка ${kind}`);
+  }
+
+  it('должен отклонять файл с неверной сигнатурой', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    bytes[0] = 0;
+
+    expectErrorKind(bytes, 'bad-signature');
+  });
+
+  it('должен отклонять неизвестную версию', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    bytes[4] = 9;
+
+    expectErrorKind(bytes, 'unsupported-version');
+  });
+
+  it('должен отклонять зарезервированные флаги', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    bytes[5] = 0x80;
+
+    expectErrorKind(bytes, 'reserved-flags');
+  });
+
+  it('должен отклонять биты сжатия в версии 1', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    bytes[5] = 0x02;
+
+    expectErrorKind(bytes, 'reserved-flags');
+  });
+
+  it('должен отклонять нулевые размеры', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    bytes[6] = 0;
+    bytes[7] = 0;
+
+    expectErrorKind(bytes, 'zero-dimensions');
+  });
+
+  it('должен обнаруживать обрезанные данные', () => {
+    const bytes = encodeGB7(createTestImage(4, 4));
+
+    expectErrorKind(bytes.slice(0, bytes.length - 1), 'truncated');
+    expectErrorKind(bytes.slice(0, 8), 'truncated');
+    expectErrorKind(encodeGB7(createTestImage(4, 4), { compression: 'rle' }).slice(0, 14), 'truncated');
+  });
+
+  it('должен обнаруживать лишние байты после пикселей', () => {
+    const bytes = encodeGB7(createTestImage(2, 2));
+    const padded = new Uint8Array(bytes.length + 3);
+    padded.set(bytes);
+
+    expectErrorKind(padded, 'trailing-data');
+  });
+
+  it('должен обнаруживать повреждённый блок метаданных', () => {
+    const bytes = encodeGB7(createTestImage(2, 2), { metadata: { title: 'Документ' } });
+
+    expectErrorKind(bytes.slice(0, bytes.length - 2), 'bad-metadata');
+  });
+
+  it('должен обнаруживать повреждённый блок слоёв', () => {
+    const image = createTestImage(2, 2);
+    const bytes = encodeGB7(image, {
+      layers: [{ name: 'Слой', visible: true, opacity: 100, blendMode: 'normal', imageData: image }]
+    });
+
+    expectErrorKind(bytes.slice(0, bytes.length - 1), 'bad-layers');
+  });
+});
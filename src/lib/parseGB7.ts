@@ -1,99 +1,244 @@
+import {
+  GB7_SIGNATURE,
+  GB7_HEADER_SIZE,
+  GB7_VERSION_COMPRESSED,
+  GB7_FLAG_MASK,
+  GB7_FLAG_METADATA,
+  GB7_FLAG_LAYERS,
+  GB7_ALLOWED_FLAGS,
+  getCompressionFromFlags,
+  decodeGB7Metadata,
+  decodeGB7LayerBlock,
+  type GB7Compression,
+  type GB7Metadata,
+  type GB7LayerRecord
+} from './gb7Format'
+import type { BlendMode } from '@/context/EditorContext'
+import { packBitsDecode } from './packBits'
+
 export interface GB7Header {
   version: number
   hasMask: boolean
   width: number
   height: number
+  compression: GB7Compression
 }
 
-const GB7_SIGNATURE = [0x47, 0x42, 0x37, 0x1D]
+export interface GB7DecodeResult {
+  header: GB7Header
+  // RGBA-пиксели, 4 байта на пиксель
+  pixels: Uint8ClampedArray
+  // Метаданные документа (пустой объект, если блока нет)
+  metadata: GB7Metadata
+  // Слои снизу вверх (пустой массив для однослойного файла)
+  layers: GB7DecodedLayer[]
+}
 
-export async function parseGB7File(file: File): Promise<{
+export interface GB7DecodedLayer {
+  name: string
+  visible: boolean
+  isBackground: boolean
+  opacity: number
+  blendMode: BlendMode
+  header: GB7Header
+  pixels: Uint8ClampedArray
+}
+
+// Виды ошибок при чтении GB7
+export type GB7ErrorKind =
+  | 'bad-signature'
+  | 'unsupported-version'
+  | 'unsupported-compression'
+  | 'reserved-flags'
+  | 'zero-dimensions'
+  | 'truncated'
+  | 'trailing-data'
+  | 'bad-metadata'
+  | 'bad-layers'
+
+const GB7_ERROR_MESSAGES: Record<GB7ErrorKind, string> = {
+  'bad-signature': 'файл не является изображением GrayBit-7 (неверная сигнатура)',
+  'unsupported-version': 'версия формата не поддерживается',
+  'unsupported-compression': 'схема сжатия не поддерживается',
+  'reserved-flags': 'в заголовке установлены зарезервированные флаги',
+  'zero-dimensions': 'ширина или высота изображения равна нулю',
+  'truncated': 'файл обрезан — данных пикселей меньше, чем указано в заголовке',
+  'trailing-data': 'после данных пикселей находятся лишние байты',
+  'bad-metadata': 'блок метаданных повреждён',
+  'bad-layers': 'блок слоёв повреждён'
+}
+
+// Ошибка проверки GB7 с типизированной причиной
+export class GB7Error extends Error {
+  readonly kind: GB7ErrorKind
+
+  constructor(kind: GB7ErrorKind, details?: string) {
+    const message = GB7_ERROR_MESSAGES[kind]
+    super(details ? `${message} (${details})` : message)
+    this.name = 'GB7Error'
+    this.kind = kind
+  }
+}
+
+// Проверяет заголовок и возвращает его вместе с распакованными байтами пикселей
+function validateGB7(uint8Array: Uint8Array): {
   header: GB7Header,
-  imageData: ImageData,
-  url: string
-}> {
-  return new Promise((resolve, reject) => {    
-    const reader = new FileReader()
-    
-    reader.onload = (event) => {
-      try {
-        if (!event.target || !event.target.result) {
-          throw new Error('Failed to read file')
-        }
-        
-        const buffer = event.target.result as ArrayBuffer
-        const dataView = new DataView(buffer)
-        const uint8Array = new Uint8Array(buffer)
-        
-        for (let i = 0; i < GB7_SIGNATURE.length; i++) {
-          if (dataView.getUint8(i) !== GB7_SIGNATURE[i]) {
-            throw new Error('Invalid GrayBit-7 file signature')
-          }
-        }
-        
-        const version = dataView.getUint8(4)
-        const flags = dataView.getUint8(5)
-        const hasMask = (flags & 0x01) === 1
-        const width = dataView.getUint16(6, false)
-        const height = dataView.getUint16(8, false)
-        
-        const header: GB7Header = {
-          version,
-          hasMask,
-          width,
-          height
-        }
-        
-        const headerSize = 12
-        const imageDataSize = width * height
-        
-        const canvas = document.createElement('canvas')
-        canvas.width = width
-        canvas.height = height
-        const ctx = canvas.getContext('2d')
-        
-        if (!ctx) {
-          throw new Error('Failed to create canvas context')
-        }
-        
-        const imageData = ctx.createImageData(width, height)
-        
-        for (let i = 0; i < imageDataSize; i++) {
-          const pixelByte = uint8Array[headerSize + i]
-          const grayscaleValue = pixelByte & 0x7F
-          
-          const scaledValue = Math.floor(grayscaleValue * 255 / 127)
-          
-          const pos = i * 4
-          imageData.data[pos] = scaledValue     // R
-          imageData.data[pos + 1] = scaledValue // G
-          imageData.data[pos + 2] = scaledValue // B
-          
-          // alpha
-          if (hasMask) {
-            imageData.data[pos + 3] = (pixelByte & 0x80) ? 255 : 0
-          } else {
-            imageData.data[pos + 3] = 255
-          }
-        }
-        
-        ctx.putImageData(imageData, 0, 0)
-        const url = canvas.toDataURL('image/png')
-        
-        resolve({
-          header,
-          imageData,
-          url
-        })
-      } catch (error) {
-        reject(error)
-      }
+  source: Uint8Array,
+  metadata: GB7Metadata,
+  layerRecords: GB7LayerRecord[]
+} {
+  if (uint8Array.length < GB7_SIGNATURE.length) {
+    throw new GB7Error('bad-signature')
+  }
+
+  for (let i = 0; i < GB7_SIGNATURE.length; i++) {
+    if (uint8Array[i] !== GB7_SIGNATURE[i]) {
+      throw new GB7Error('bad-signature')
+    }
+  }
+
+  if (uint8Array.length < GB7_HEADER_SIZE) {
+    throw new GB7Error('truncated', `заголовок ${uint8Array.length} из ${GB7_HEADER_SIZE} байт`)
+  }
+
+  const dataView = new DataView(uint8Array.buffer, uint8Array.byteOffset, uint8Array.byteLength)
+  const version = dataView.getUint8(4)
+  const flags = dataView.getUint8(5)
+  const width = dataView.getUint16(6, false)
+  const height = dataView.getUint16(8, false)
+
+  const allowedFlags = GB7_ALLOWED_FLAGS[version]
+  if (allowedFlags === undefined) {
+    throw new GB7Error('unsupported-version', `версия ${version}`)
+  }
+
+  if ((flags & ~allowedFlags) !== 0) {
+    throw new GB7Error('reserved-flags', `0x${flags.toString(16).padStart(2, '0')}`)
+  }
+
+  // В версии 1 биты сжатия не используются
+  const compression = version >= GB7_VERSION_COMPRESSED
+    ? getCompressionFromFlags(flags)
+    : 'none'
+
+  if (!compression) {
+    throw new GB7Error('unsupported-compression')
+  }
+
+  if (width === 0 || height === 0) {
+    throw new GB7Error('zero-dimensions', `${width} × ${height}`)
+  }
+
+  const header: GB7Header = {
+    version,
+    hasMask: (flags & GB7_FLAG_MASK) === 1,
+    width,
+    height,
+    compression
+  }
+
+  const imageDataSize = width * height
+  let source: Uint8Array
+  let payloadEnd: number
+
+  if (compression === 'rle') {
+    try {
+      const decoded = packBitsDecode(uint8Array, imageDataSize, GB7_HEADER_SIZE)
+      source = decoded.data
+      payloadEnd = GB7_HEADER_SIZE + decoded.bytesRead
+    } catch {
+      throw new GB7Error('truncated')
+    }
+  } else {
+    payloadEnd = GB7_HEADER_SIZE + imageDataSize
+    if (uint8Array.length < payloadEnd) {
+      throw new GB7Error(
+        'truncated',
+        `${uint8Array.length - GB7_HEADER_SIZE} из ${imageDataSize} байт`
+      )
+    }
+    source = uint8Array.subarray(GB7_HEADER_SIZE, payloadEnd)
+  }
+
+  let metadata: GB7Metadata = {}
+  if (flags & GB7_FLAG_METADATA) {
+    try {
+      const decoded = decodeGB7Metadata(uint8Array, payloadEnd)
+      metadata = decoded.metadata
+      payloadEnd += decoded.bytesRead
+    } catch (error) {
+      throw new GB7Error('bad-metadata', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  let layerRecords: GB7LayerRecord[] = []
+  if (flags & GB7_FLAG_LAYERS) {
+    try {
+      const decoded = decodeGB7LayerBlock(uint8Array, payloadEnd)
+      layerRecords = decoded.records
+      payloadEnd += decoded.bytesRead
+    } catch (error) {
+      throw new GB7Error('bad-layers', error instanceof Error ? error.message : undefined)
     }
-    
-    reader.onerror = () => {
-      reject(new Error('Error reading file'))
+  }
+
+  if (uint8Array.length > payloadEnd) {
+    throw new GB7Error('trailing-data', `${uint8Array.length - payloadEnd} байт`)
+  }
+
+  return { header, source, metadata, layerRecords }
+}
+
+// Декодирует GB7 без обращения к DOM (работает в воркерах и Node).
+// Uint8Array читается в границах своего представления, а не всего буфера
+export function decodeGB7(data: ArrayBuffer | Uint8Array): GB7DecodeResult {
+  const { header, source, metadata, layerRecords } = validateGB7(data instanceof Uint8Array ? data : new Uint8Array(data))
+  const imageDataSize = header.width * header.height
+  const { hasMask } = header
+
+  const pixels = new Uint8ClampedArray(imageDataSize * 4)
+
+  for (let i = 0; i < imageDataSize; i++) {
+    const pixelByte = source[i]
+    const grayscaleValue = pixelByte & 0x7F
+
+    const scaledValue = Math.floor(grayscaleValue * 255 / 127)
+
+    const pos = i * 4
+    pixels[pos] = scaledValue     // R
+    pixels[pos + 1] = scaledValue // G
+    pixels[pos + 2] = scaledValue // B
+
+    // alpha
+    if (hasMask) {
+      pixels[pos + 3] = (pixelByte & 0x80) ? 255 : 0
+    } else {
+      pixels[pos + 3] = 255
     }
+  }
 
-    reader.readAsArrayBuffer(file)
+  // Кадры слоёв — самостоятельные GB7-файлы и проходят ту же проверку
+  const layers = layerRecords.map(({ frame, ...record }): GB7DecodedLayer => {
+    const decoded = decodeGB7(frame)
+    return { ...record, header: decoded.header, pixels: decoded.pixels }
   })
-} 
+
+  return { header, pixels, metadata, layers }
+}
+
+export async function parseGB7File(file: File): Promise<{
+  header: GB7Header,
+  imageData: ImageData,
+  metadata: GB7Metadata,
+  layers: GB7DecodedLayer[]
+}> {
+  const buffer = await file.arrayBuffer()
+  const { header, pixels, metadata, layers } = decodeGB7(buffer)
+
+  return {
+    header,
+    imageData: new ImageData(pixels, header.width, header.height),
+    metadata,
+    layers
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { insertPNGChunks, readPNGMetadata } from './pngChunks';
+import { crc32 } from './zip';
+
+// Минимальный PNG: сигнатура, IHDR, пустой IDAT и IEND (пиксели для теста не важны)
+function buildPNG(): Uint8Array {
+  const chunk = (type: string, data: number[]) => {
+    const body = new Uint8Array([...type].map(c => c.charCodeAt(0)).concat(data));
+    const crc = crc32(body);
+    const length = data.length;
+    return [length >>> 24, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...body,
+      crc >>> 24, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff];
+  };
+
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+    ...chunk('IDAT', []),
+    ...chunk('IEND', [])
+  ]);
+}
+
+// Типы блоков по порядку
+function chunkTypes(png: Uint8Array): string[] {
+  const view = new DataView(png.buffer);
+  const types: string[] = [];
+  for (let pos = 8; pos < png.length; pos += 12 + view.getUint32(pos)) {
+    types.push(String.fromCharCode(...png.subarray(pos + 4, pos + 8)));
+  }
+  return types;
+}
+
+describe('insertPNGChunks / readPNGMetadata', () => {
+  it('должен вставлять блоки после IHDR и читать их обратно', () => {
+    const png = insertPNGChunks(buildPNG(), {
+      dpi: 300,
+      text: { Title: 'Обложка', Author: 'Print Team', Software: 'Editor' },
+      modified: new Date(Date.UTC(2024, 2, 15, 10, 30, 5))
+    });
+
+    expect(chunkTypes(png)).toEqual(['IHDR', 'pHYs', 'tIME', 'iTXt', 'tEXt', 'tEXt', 'IDAT', 'IEND']);
+    expect(readPNGMetadata(png.buffer as ArrayBuffer)).toEqual({
+      dpi: '300',
+      modified: '2024-03-15T10:30:05.000Z',
+      title: 'Обложка',
+      author: 'Print Team',
+      software: 'Editor'
+    });
+  });
+
+  it('должен записывать корректные контрольные суммы', () => {
+    const png = insertPNGChunks(buildPNG(), { dpi: 72 });
+    const view = new DataView(png.buffer);
+    for (let pos = 8; pos < png.length; pos += 12 + view.getUint32(pos)) {
+      const length = view.getUint32(pos);
+      expect(view.getUint32(pos + 8 + length)).toBe(crc32(png.subarray(pos + 4, pos + 8 + length)));
+    }
+  });
+
+  it('должен заменять прежние блоки разрешения', () => {
+    const png = insertPNGChunks(insertPNGChunks(buildPNG(), { dpi: 72 }), { dpi: 150 });
+
+    expect(chunkTypes(png).filter(type => type === 'pHYs')).toHaveLength(1);
+    expect(readPNGMetadata(png.buffer as ArrayBuffer).dpi).toBe('150');
+  });
+
+  it('должен сохранять неизвестные ключевые слова как есть', () => {
+    const png = insertPNGChunks(buildPNG(), { text: { Comment: 'scan 42' } });
+
+    expect(readPNGMetadata(png.buffer as ArrayBuffer)).toEqual({ Comment: 'scan 42' });
+  });
+
+  it('должен читать большие текстовые блоки', () => {
+    // Например, профили в шестнадцатеричном виде, которые записывает ImageMagick
+    const profile = 'f'.repeat(300000);
+    const png = insertPNGChunks(buildPNG(), { text: { 'Raw profile type exif': profile } });
+
+    expect(readPNGMetadata(png.buffer as ArrayBuffer)['Raw profile type exif']).toBe(profile);
+  });
+
+  it('не должен падать на файлах, не являющихся PNG', () => {
+    expect(readPNGMetadata(new Uint8Array([1, 2, 3]).buffer)).toEqual({});
+    expect(() => insertPNGChunks(new Uint8Array([1, 2, 3]), {})).toThrow('не является изображением PNG');
+  });
+});
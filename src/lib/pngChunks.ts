@@ -0,0 +1,198 @@
+// Служебные блоки PNG: разрешение (pHYs), текст (tEXt/iTXt) и время изменения (tIME)
+// Браузер кодирует PNG без них, поэтому блоки вставляются в готовый файл
+
+import { crc32 } from './zip';
+import type { DocumentProperties } from './documentProperties';
+
+export interface PNGMetadata {
+  // Разрешение в точках на дюйм
+  dpi?: number;
+  // Текстовые поля: ключевое слово PNG → значение
+  text?: Record<string, string>;
+  // Время последнего изменения для блока tIME
+  modified?: Date;
+}
+
+// Ключевые слова PNG для свойств документа
+export const PNG_TEXT_KEYWORDS: Record<string, string> = {
+  title: 'Title',
+  author: 'Author',
+  description: 'Description',
+  software: 'Software'
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const INCHES_PER_METER = 39.3701;
+const UNIT_METER = 1;
+const MAX_KEYWORD_LENGTH = 79;
+
+// Блоки, которые заменяются при вставке
+const REPLACED_CHUNKS = new Set(['pHYs', 'tIME', 'tEXt', 'iTXt', 'zTXt']);
+
+interface PNGChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const isLatin1 = (text: string) => [...text].every(c => c.charCodeAt(0) <= 0xff);
+
+function isPNG(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+function readChunks(bytes: Uint8Array): PNGChunk[] {
+  if (!isPNG(bytes)) {
+    throw new Error('Файл не является изображением PNG');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PNGChunk[] = [];
+  let pos = PNG_SIGNATURE.length;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    if (pos + 12 + length > bytes.length) {
+      throw new Error('Файл PNG обрезан');
+    }
+    chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+    pos += 12 + length;
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+}
+
+function writeChunks(chunks: PNGChunk[]): Uint8Array {
+  const size = PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + 12 + chunk.data.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(PNG_SIGNATURE);
+
+  let pos = PNG_SIGNATURE.length;
+  for (const { type, data } of chunks) {
+    view.setUint32(pos, data.length);
+    bytes.set(latin1(type), pos + 4);
+    bytes.set(data, pos + 8);
+    // CRC считается по типу и данным блока
+    view.setUint32(pos + 8 + data.length, crc32(bytes.subarray(pos + 4, pos + 8 + data.length)));
+    pos += 12 + data.length;
+  }
+
+  return bytes;
+}
+
+function createTextChunk(keyword: string, value: string): PNGChunk {
+  const key = latin1(keyword.slice(0, MAX_KEYWORD_LENGTH));
+
+  // Латиница сохраняется в tEXt, остальное — в iTXt в UTF-8 без сжатия
+  if (isLatin1(value)) {
+    const data = new Uint8Array(key.length + 1 + value.length);
+    data.set(key);
+    data.set(latin1(value), key.length + 1);
+    return { type: 'tEXt', data };
+  }
+
+  const text = new TextEncoder().encode(value);
+  // Ключевое слово, 0, флаг сжатия, метод сжатия, пустой язык, 0, пустой перевод ключа, 0
+  const data = new Uint8Array(key.length + 5 + text.length);
+  data.set(key);
+  data.set(text, key.length + 5);
+  return { type: 'iTXt', data };
+}
+
+/**
+ * Вставляет в PNG блоки разрешения, текста и времени изменения
+ * @param png Файл PNG
+ * @param metadata Значения блоков; отсутствующие поля не записываются
+ * @returns Новый файл PNG; прежние блоки pHYs, tIME и текстовые блоки заменяются
+ */
+export function insertPNGChunks(png: Uint8Array, metadata: PNGMetadata): Uint8Array {
+  const chunks = readChunks(png).filter(chunk => !REPLACED_CHUNKS.has(chunk.type));
+  const extra: PNGChunk[] = [];
+
+  if (metadata.dpi && metadata.dpi > 0) {
+    const pixelsPerMeter = Math.round(metadata.dpi * INCHES_PER_METER);
+    const data = new Uint8Array(9);
+    const view = new DataView(data.buffer);
+    view.setUint32(0, pixelsPerMeter);
+    view.setUint32(4, pixelsPerMeter);
+    data[8] = UNIT_METER;
+    extra.push({ type: 'pHYs', data });
+  }
+
+  if (metadata.modified) {
+    const date = metadata.modified;
+    const data = new Uint8Array(7);
+    new DataView(data.buffer).setUint16(0, date.getUTCFullYear());
+    data.set([date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()], 2);
+    extra.push({ type: 'tIME', data });
+  }
+
+  for (const [keyword, value] of Object.entries(metadata.text ?? {})) {
+    if (keyword && value) {
+      extra.push(createTextChunk(keyword, value));
+    }
+  }
+
+  // Блоки идут сразу после IHDR: pHYs должен предшествовать IDAT
+  const headerIndex = chunks.findIndex(chunk => chunk.type === 'IHDR');
+  chunks.splice(headerIndex + 1, 0, ...extra);
+
+  return writeChunks(chunks);
+}
+
+// tEXt хранит текст в Latin-1; декодер справляется с блоками любого размера
+const latin1Decoder = new TextDecoder('latin1');
+
+/**
+ * Читает из PNG разрешение, текстовые поля и время изменения в свойства документа
+ */
+export function readPNGMetadata(buffer: ArrayBuffer): DocumentProperties {
+  const properties: DocumentProperties = {};
+  const bytes = new Uint8Array(buffer);
+  if (!isPNG(bytes)) return properties;
+
+  // Повреждённый хвост файла или метаданные не мешают открыть изображение — свойства тогда не читаются
+  try {
+    collectPNGMetadata(readChunks(bytes), properties);
+  } catch {
+    return {};
+  }
+
+  return properties;
+}
+
+function collectPNGMetadata(chunks: PNGChunk[], properties: DocumentProperties): void {
+  const propertyByKeyword = Object.fromEntries(Object.entries(PNG_TEXT_KEYWORDS).map(([key, keyword]) => [keyword, key]));
+  const setText = (keyword: string, value: string) => {
+    if (value) properties[propertyByKeyword[keyword] ?? keyword] = value;
+  };
+
+  for (const { type, data } of chunks) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (type === 'pHYs' && data.length >= 9 && data[8] === UNIT_METER) {
+      properties.dpi = String(Math.round(view.getUint32(0) / INCHES_PER_METER));
+    } else if (type === 'tIME' && data.length >= 7) {
+      const date = new Date(Date.UTC(view.getUint16(0), data[2] - 1, data[3], data[4], data[5], data[6]));
+      if (!Number.isNaN(date.getTime())) properties.modified = date.toISOString();
+    } else if (type === 'tEXt') {
+      const separator = data.indexOf(0);
+      if (separator > 0) {
+        setText(latin1Decoder.decode(data.subarray(0, separator)), latin1Decoder.decode(data.subarray(separator + 1)));
+      }
+    } else if (type === 'iTXt') {
+      const separator = data.indexOf(0);
+      // Сжатый iTXt пропускается: для него понадобился бы zlib
+      if (separator > 0 && data[separator + 1] === 0) {
+        const language = data.indexOf(0, separator + 3);
+        const translated = language === -1 ? -1 : data.indexOf(0, language + 1);
+        if (translated !== -1) {
+          setText(latin1Decoder.decode(data.subarray(0, separator)), new TextDecoder().decode(data.subarray(translated + 1)));
+        }
+      }
+    }
+  }
+}
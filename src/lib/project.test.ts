@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { serializeProject, parseProject, type ProjectState } from './project';
+import { createZip } from './zip';
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function createState(): ProjectState {
+  const pixels = new Uint8ClampedArray(2 * 2 * 4).map((_, i) => i * 7);
+  return {
+    documentSize: { width: 4, height: 3 },
+    layers: [
+      {
+        id: 'layer-1',
+        name: 'Фон',
+        visible: true,
+        opacity: 100,
+        blendMode: 'normal',
+        imageData: new ImageData(pixels, 2, 2),
+        imageUrl: 'data:image/png;base64,',
+        isBackground: true
+      },
+      {
+        id: 'layer-2',
+        name: 'Пустой',
+        visible: false,
+        opacity: 35,
+        blendMode: 'screen',
+        imageData: null,
+        imageUrl: null,
+        isBackground: false
+      }
+    ],
+    activeLayerId: 'layer-2',
+    alphaChannels: [
+      { id: 'alpha-1', name: 'Маска', visible: true, width: 2, height: 2, data: new Uint8ClampedArray([0, 64, 128, 255]) }
+    ],
+    zoomLevel: 150,
+    documentProperties: { title: 'Проект', author: 'Автор' }
+  };
+}
+
+describe('файл проекта', () => {
+  it('должен восстанавливать слои, альфа-каналы и настройки', () => {
+    const state = createState();
+    const restored = parseProject(toArrayBuffer(serializeProject(state)));
+
+    expect(restored.activeLayerId).toBe('layer-2');
+    expect(restored.zoomLevel).toBe(150);
+    expect(restored.documentSize).toEqual({ width: 4, height: 3 });
+    expect(restored.documentProperties).toEqual(state.documentProperties);
+    expect(restored.layers.map(({ imageData, imageUrl, ...rest }) => ({ ...rest, hasData: !!imageData, imageUrl })))
+      .toEqual([
+        { id: 'layer-1', name: 'Фон', visible: true, opacity: 100, blendMode: 'normal', isBackground: true, hasData: true, imageUrl: null },
+        { id: 'layer-2', name: 'Пустой', visible: false, opacity: 35, blendMode: 'screen', isBackground: false, hasData: false, imageUrl: null }
+      ]);
+    expect(restored.layers[0].imageData!.data).toEqual(state.layers[0].imageData!.data);
+    expect(restored.alphaChannels).toEqual(state.alphaChannels);
+  });
+
+  it('должен сохранять группы и вложенность слоев', () => {
+    const state = createState();
+    state.layers = [
+      { ...state.layers[0], parentId: 'group-1' },
+      {
+        id: 'group-1',
+        name: 'Группа',
+        visible: true,
+        opacity: 80,
+        blendMode: 'normal',
+        imageData: null,
+        imageUrl: null,
+        isGroup: true,
+        collapsed: true,
+        passThrough: true
+      }
+    ];
+
+    const [layer, group] = parseProject(toArrayBuffer(serializeProject(state))).layers;
+    expect(layer.parentId).toBe('group-1');
+    expect(layer.isGroup).toBeUndefined();
+    expect(group).toMatchObject({ id: 'group-1', isGroup: true, collapsed: true, passThrough: true, imageData: null });
+  });
+
+  it('должен сохранять маски слоев', () => {
+    const state = createState();
+    state.layers[0].mask = {
+      data: new Uint8ClampedArray([0, 85, 170, 255]),
+      width: 2,
+      height: 2,
+      enabled: false,
+      inverted: true,
+      linked: false,
+      x: 3,
+      y: -2
+    };
+    state.layers[0].x = -1;
+    state.layers[0].y = 4;
+
+    const [layer, empty] = parseProject(toArrayBuffer(serializeProject(state))).layers;
+    expect(layer.mask).toEqual(state.layers[0].mask);
+    expect([layer.x, layer.y]).toEqual([-1, 4]);
+    expect(empty.mask).toBeUndefined();
+  });
+
+  it('должен сохранять параметры корректирующих слоев', () => {
+    const state = createState();
+    state.layers[1].adjustment = { type: 'levels', inputBlack: 10, inputWhite: 240, gamma: 1.5, outputBlack: 0, outputWhite: 255 };
+
+    const [layer, adjustment] = parseProject(toArrayBuffer(serializeProject(state))).layers;
+    expect(layer.adjustment).toBeUndefined();
+    expect(adjustment.adjustment).toEqual(state.layers[1].adjustment);
+  });
+
+  it('должен брать размер документа из нижнего слоя, если он не сохранен', () => {
+    const state = { ...createState(), documentSize: null };
+
+    expect(parseProject(toArrayBuffer(serializeProject(state))).documentSize).toEqual({ width: 2, height: 2 });
+  });
+
+  it('должен отклонять архив без манифеста', () => {
+    const bytes = createZip([{ name: 'other.txt', data: new Uint8Array([1]) }]);
+
+    expect(() => parseProject(toArrayBuffer(bytes))).toThrow(/manifest/);
+  });
+});
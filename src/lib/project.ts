@@ -0,0 +1,236 @@
+// Файл проекта: ZIP-архив с JSON-манифестом и несжатыми пикселями каждого слоя
+//
+//   manifest.json     — размер документа, параметры слоёв, альфа-каналов, масштаб и свойства документа
+//   layers/<n>.rgba   — RGBA-пиксели слоя (4 байта на пиксель)
+//   masks/<n>.bin     — значения маски слоя (1 байт на пиксель)
+//   alpha/<n>.bin     — значения альфа-канала (1 байт на пиксель)
+
+import type { AlphaChannel, BlendMode, EditorSession, Layer } from '@/context/EditorContext';
+import type { DocumentProperties } from './documentProperties';
+import type { LayerMask } from './layerMask';
+import type { Adjustment } from './adjustments';
+import { getDocumentSize, type DocumentSize } from './layerGeometry';
+import { createZip, readZip, type ZipEntry } from './zip';
+
+export const PROJECT_EXTENSION = '.phproj';
+export const PROJECT_FORMAT = 'photoshop-zhar-project';
+export const PROJECT_VERSION = 1;
+
+const MANIFEST_NAME = 'manifest.json';
+
+// Состояние редактора, сохраняемое в проекте
+export interface ProjectState extends EditorSession {
+  zoomLevel: number;
+}
+
+interface ManifestLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+  isBackground: boolean;
+  // Параметры групп; в проектах без групп отсутствуют
+  isGroup?: boolean;
+  parentId?: string;
+  collapsed?: boolean;
+  passThrough?: boolean;
+  mask?: ManifestMask;
+  // Смещение слоя в документе; в старых проектах отсутствует
+  x?: number;
+  y?: number;
+  // Параметры корректирующего слоя
+  adjustment?: Adjustment;
+  width: number;
+  height: number;
+  // Путь к пикселям внутри архива; null для слоя без данных
+  pixels: string | null;
+}
+
+// Параметры маски слоя; значения хранятся отдельным файлом
+interface ManifestMask extends Omit<LayerMask, 'data'> {
+  data: string;
+}
+
+interface ManifestAlphaChannel {
+  id: string;
+  name: string;
+  visible: boolean;
+  width: number;
+  height: number;
+  data: string;
+}
+
+interface ProjectManifest {
+  format: string;
+  version: number;
+  activeLayerId: string | null;
+  zoomLevel: number;
+  // Размер документа; в старых проектах отсутствует
+  documentSize?: DocumentSize | null;
+  documentProperties: DocumentProperties;
+  layers: ManifestLayer[];
+  alphaChannels: ManifestAlphaChannel[];
+}
+
+/**
+ * Сериализует состояние редактора в файл проекта
+ * @param state Состояние редактора
+ * @returns Байты файла проекта
+ */
+export function serializeProject(state: ProjectState): Uint8Array {
+  const entries: ZipEntry[] = [];
+
+  const layers: ManifestLayer[] = state.layers.map((layer, index) => {
+    let pixels: string | null = null;
+
+    if (layer.imageData) {
+      pixels = `layers/${index}.rgba`;
+      const { data } = layer.imageData;
+      entries.push({ name: pixels, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) });
+    }
+
+    let mask: ManifestMask | undefined;
+    if (layer.mask) {
+      const { data, ...maskParams } = layer.mask;
+      mask = { ...maskParams, data: `masks/${index}.bin` };
+      entries.push({ name: mask.data, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) });
+    }
+
+    return {
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      opacity: layer.opacity,
+      blendMode: layer.blendMode,
+      isBackground: layer.isBackground ?? false,
+      isGroup: layer.isGroup,
+      parentId: layer.parentId,
+      collapsed: layer.collapsed,
+      passThrough: layer.passThrough,
+      mask,
+      x: layer.x,
+      y: layer.y,
+      adjustment: layer.adjustment,
+      width: layer.imageData?.width ?? 0,
+      height: layer.imageData?.height ?? 0,
+      pixels
+    };
+  });
+
+  const alphaChannels: ManifestAlphaChannel[] = state.alphaChannels.map((channel, index) => {
+    const name = `alpha/${index}.bin`;
+    const { data } = channel;
+    entries.push({ name, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) });
+
+    return {
+      id: channel.id,
+      name: channel.name,
+      visible: channel.visible,
+      width: channel.width,
+      height: channel.height,
+      data: name
+    };
+  });
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    activeLayerId: state.activeLayerId,
+    zoomLevel: state.zoomLevel,
+    documentSize: state.documentSize,
+    documentProperties: state.documentProperties,
+    layers,
+    alphaChannels
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createZip([{ name: MANIFEST_NAME, data: manifestBytes }, ...entries]);
+}
+
+/**
+ * Восстанавливает состояние редактора из файла проекта
+ * @param buffer Байты файла проекта
+ * @returns Состояние редактора; превью слоёв (imageUrl) не заполняются
+ */
+export function parseProject(buffer: ArrayBuffer): ProjectState {
+  const files = new Map(readZip(new Uint8Array(buffer)).map(entry => [entry.name, entry.data]));
+  const manifestBytes = files.get(MANIFEST_NAME);
+
+  if (!manifestBytes) {
+    throw new Error('В проекте отсутствует manifest.json');
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error('Манифест проекта повреждён');
+  }
+
+  if (manifest.format !== PROJECT_FORMAT) {
+    throw new Error('Файл не является проектом редактора');
+  }
+
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`Проект создан в более новой версии редактора (версия ${manifest.version})`);
+  }
+
+  const readBlob = (path: string, expectedLength: number): Uint8ClampedArray => {
+    const data = files.get(path);
+    if (!data) {
+      throw new Error(`В проекте отсутствует файл ${path}`);
+    }
+    if (data.length !== expectedLength) {
+      throw new Error(`Размер файла ${path} не совпадает с размерами в манифесте`);
+    }
+    // Копируем, чтобы не держать ссылку на весь архив
+    return new Uint8ClampedArray(data);
+  };
+
+  const layers: Layer[] = manifest.layers.map(layer => ({
+    id: layer.id,
+    name: layer.name,
+    visible: layer.visible,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode,
+    isBackground: layer.isBackground,
+    isGroup: layer.isGroup,
+    parentId: layer.parentId,
+    collapsed: layer.collapsed,
+    passThrough: layer.passThrough,
+    mask: layer.mask
+      ? { ...layer.mask, data: readBlob(layer.mask.data, layer.mask.width * layer.mask.height) }
+      : undefined,
+    x: layer.x,
+    y: layer.y,
+    adjustment: layer.adjustment,
+    imageData: layer.pixels
+      ? new ImageData(readBlob(layer.pixels, layer.width * layer.height * 4), layer.width, layer.height)
+      : null,
+    imageUrl: null
+  }));
+
+  const alphaChannels: AlphaChannel[] = manifest.alphaChannels.map(channel => ({
+    id: channel.id,
+    name: channel.name,
+    visible: channel.visible,
+    width: channel.width,
+    height: channel.height,
+    data: readBlob(channel.data, channel.width * channel.height)
+  }));
+
+  const activeLayerId = layers.some(layer => layer.id === manifest.activeLayerId)
+    ? manifest.activeLayerId
+    : layers[layers.length - 1]?.id ?? null;
+
+  return {
+    // Старые проекты не хранят размер документа: им был размер нижнего слоя с пикселями
+    documentSize: manifest.documentSize ?? getDocumentSize(layers),
+    layers,
+    activeLayerId,
+    alphaChannels,
+    zoomLevel: manifest.zoomLevel,
+    documentProperties: manifest.documentProperties ?? {}
+  };
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { decodePSD, encodePSD } from './psd';
+import type { DecodedImage } from './decodedImage';
+
+interface TestLayer {
+  name: string;
+  bounds: [top: number, left: number, bottom: number, right: number];
+  blendKey?: string;
+  opacity?: number;
+  hidden?: boolean;
+  // Значения каналов R, G, B, A, одинаковые для всех пикселей слоя
+  color: [number, number, number, number];
+}
+
+// Собирает несжатый PSD 8 бит RGB; сведённое изображение заполняется серым
+function buildPSD(width: number, height: number, layers: TestLayer[], colorMode = 3): ArrayBuffer {
+  const bytes: number[] = [];
+  const u8 = (value: number) => bytes.push(value & 0xff);
+  const u16 = (value: number) => { u8(value >> 8); u8(value); };
+  const u32 = (value: number) => { u16(value >>> 16); u16(value & 0xffff); };
+  const ascii = (text: string) => [...text].forEach(char => u8(char.charCodeAt(0)));
+
+  ascii('8BPS');
+  u16(1);
+  for (let i = 0; i < 6; i++) u8(0);
+  u16(3);
+  u32(height);
+  u32(width);
+  u16(8);
+  u16(colorMode);
+  u32(0);
+  u32(0);
+
+  const layerBytes: number[] = [];
+  const records: number[] = [];
+  const channelData: number[] = [];
+  const w8 = (target: number[], value: number) => target.push(value & 0xff);
+  const w32 = (target: number[], value: number) => [24, 16, 8, 0].forEach(shift => w8(target, value >>> shift));
+
+  w8(records, layers.length >> 8);
+  w8(records, layers.length);
+
+  for (const layer of layers) {
+    const [top, left, bottom, right] = layer.bounds;
+    const size = (bottom - top) * (right - left);
+    [top, left, bottom, right].forEach(value => w32(records, value));
+    w8(records, 0);
+    w8(records, 4);
+    [0, 1, 2, -1].forEach(id => {
+      w8(records, id >> 8);
+      w8(records, id);
+      w32(records, size + 2);
+    });
+    [...'8BIM', ...(layer.blendKey ?? 'norm')].forEach(char => w8(records, char.charCodeAt(0)));
+    w8(records, layer.opacity ?? 255);
+    w8(records, 0);
+    w8(records, layer.hidden ? 0x02 : 0);
+    w8(records, 0);
+
+    const paddedName = layer.name.length + 1 + ((4 - ((layer.name.length + 1) % 4)) % 4);
+    w32(records, 8 + paddedName);
+    w32(records, 0);
+    w32(records, 0);
+    w8(records, layer.name.length);
+    [...layer.name].forEach(char => w8(records, char.charCodeAt(0)));
+    for (let i = layer.name.length + 1; i < paddedName; i++) w8(records, 0);
+
+    layer.color.forEach(value => {
+      w8(channelData, 0);
+      w8(channelData, 0);
+      for (let i = 0; i < size; i++) w8(channelData, value);
+    });
+  }
+
+  w32(layerBytes, records.length + channelData.length);
+  layerBytes.push(...records, ...channelData);
+  u32(layerBytes.length);
+  bytes.push(...layerBytes);
+
+  u16(0);
+  for (let i = 0; i < width * height * 3; i++) u8(128);
+
+  return new Uint8Array(bytes).buffer;
+}
+
+const pixelAt = (pixels: Uint8ClampedArray, width: number, x: number, y: number) =>
+  Array.from(pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe('decodePSD', () => {
+  it('должен читать слои с именами, видимостью, непрозрачностью и режимами наложения', () => {
+    const result = decodePSD(buildPSD(2, 2, [
+      { name: 'Background', bounds: [0, 0, 2, 2], color: [255, 0, 0, 255] },
+      { name: 'Shade', bounds: [0, 0, 2, 2], blendKey: 'mul ', opacity: 128, hidden: true, color: [0, 0, 255, 200] }
+    ]));
+
+    expect(result.fallbackReason).toBeNull();
+    expect(result.layers).toHaveLength(2);
+    expect(result.layers.map(layer => layer.name)).toEqual(['Background', 'Shade']);
+    expect(result.layers[1]).toMatchObject({ visible: false, opacity: 50, blendMode: 'multiply' });
+    expect(result.layers[0].visible).toBe(true);
+    expect(pixelAt(result.layers[1].pixels, 2, 1, 1)).toEqual([0, 0, 255, 200]);
+  });
+
+  it('должен размещать слой по его границам в документе', () => {
+    const result = decodePSD(buildPSD(3, 3, [
+      { name: 'Dot', bounds: [1, 2, 2, 3], color: [10, 20, 30, 255] }
+    ]));
+    const { pixels } = result.layers[0];
+
+    expect(pixelAt(pixels, 3, 2, 1)).toEqual([10, 20, 30, 255]);
+    expect(pixelAt(pixels, 3, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('должен использовать сведённое изображение при неподдерживаемом режиме наложения', () => {
+    const result = decodePSD(buildPSD(1, 1, [
+      { name: 'Dodge', bounds: [0, 0, 1, 1], blendKey: 'div ', color: [1, 2, 3, 255] }
+    ]));
+
+    expect(result.layers).toEqual([]);
+    expect(result.fallbackReason).toContain('div');
+    expect(Array.from(result.composite)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('должен читать сведённое изображение документа без слоёв', () => {
+    const result = decodePSD(buildPSD(2, 1, []));
+
+    expect(result.layers).toEqual([]);
+    expect(result.fallbackReason).toBeNull();
+    expect(Array.from(result.composite)).toEqual([128, 128, 128, 255, 128, 128, 128, 255]);
+  });
+
+  it('должен отклонять документы не в RGB', () => {
+    expect(() => decodePSD(buildPSD(1, 1, [], 4))).toThrow('RGB');
+  });
+
+  it('должен отклонять файлы без сигнатуры 8BPS', () => {
+    expect(() => decodePSD(new ArrayBuffer(40))).toThrow('не является документом Photoshop');
+  });
+});
+
+describe('encodePSD', () => {
+  const solid = (width: number, height: number, rgba: number[]): DecodedImage => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+    return { width, height, data };
+  };
+
+  it('должен сохранять слои и сведённое изображение', () => {
+    const top = solid(3, 2, [0, 0, 0, 0]);
+    top.data.set([0, 255, 0, 180], (1 * 3 + 2) * 4);
+
+    const encoded = encodePSD(solid(3, 2, [9, 9, 9, 255]), {
+      layers: [
+        { name: 'Фон', visible: true, opacity: 100, blendMode: 'normal', imageData: solid(3, 2, [200, 100, 50, 255]) },
+        { name: 'Точка', visible: false, opacity: 40, blendMode: 'screen', imageData: top }
+      ]
+    });
+    const result = decodePSD(encoded.buffer as ArrayBuffer);
+
+    expect(result.fallbackReason).toBeNull();
+    expect(result.layers.map(layer => layer.name)).toEqual(['Фон', 'Точка']);
+    expect(result.layers[1]).toMatchObject({ visible: false, opacity: 40, blendMode: 'screen' });
+    expect(pixelAt(result.layers[0].pixels, 3, 0, 0)).toEqual([200, 100, 50, 255]);
+    expect(pixelAt(result.layers[1].pixels, 3, 2, 1)).toEqual([0, 255, 0, 180]);
+    expect(pixelAt(result.layers[1].pixels, 3, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixelAt(result.composite, 3, 1, 1)).toEqual([9, 9, 9, 255]);
+  });
+
+  it('должен записывать полностью прозрачный слой без данных', () => {
+    const encoded = encodePSD(solid(2, 2, [1, 2, 3, 255]), {
+      layers: [{ name: 'Пусто', visible: true, opacity: 100, blendMode: 'normal', imageData: solid(2, 2, [0, 0, 0, 0]) }]
+    });
+    const result = decodePSD(encoded.buffer as ArrayBuffer);
+
+    expect(result.layers).toHaveLength(1);
+    expect(Array.from(result.layers[0].pixels).every(value => value === 0)).toBe(true);
+  });
+
+  it('без слоёв должен записывать только сведённое изображение', () => {
+    const result = decodePSD(encodePSD(solid(2, 1, [5, 6, 7, 255])).buffer as ArrayBuffer);
+
+    expect(result.layers).toEqual([]);
+    expect(Array.from(result.composite)).toEqual([5, 6, 7, 255, 5, 6, 7, 255]);
+  });
+});
@@ -0,0 +1,708 @@
+// Формат Adobe Photoshop (PSD), 8 бит на канал, цветовая модель RGB
+//
+//   Заголовок (26 байт)      — сигнатура «8BPS», версия 1, число каналов, размеры, глубина, цветовая модель
+//   Данные цветовой модели   — длина + данные (для RGB пусто)
+//   Ресурсы изображения      — длина + данные (пропускаются)
+//   Слои и маски             — длина + информация о слоях: записи слоёв снизу вверх, затем их каналы
+//   Сведённое изображение    — сжатие + каналы R, G, B (и прозрачность) целиком
+
+import type { BlendMode } from '@/context/EditorContext';
+import type { DecodedImage } from './decodedImage';
+import { packBitsDecode, packBitsEncode } from './packBits';
+
+export const PSD_EXTENSION = '.psd';
+
+const SIGNATURE = '8BPS';
+const RESOURCE_SIGNATURES = ['8BIM', '8B64'];
+const HEADER_SIZE = 26;
+const PSD_VERSION = 1;
+const COLOR_MODE_RGB = 3;
+
+const COMPRESSION_RAW = 0;
+const COMPRESSION_RLE = 1;
+
+// Идентификаторы каналов слоя
+const CHANNEL_ALPHA = -1;
+const CHANNEL_USER_MASK = -2;
+const CHANNEL_REAL_USER_MASK = -3;
+
+const LAYER_FLAG_HIDDEN = 0x02;
+
+// Ключи режимов наложения PSD для режимов редактора
+export const PSD_BLEND_MODES: Record<BlendMode, string> = {
+  normal: 'norm',
+  multiply: 'mul ',
+  screen: 'scrn',
+  overlay: 'over'
+};
+
+// Дополнительные блоки слоя, которые редактор не может воспроизвести
+const UNSUPPORTED_LAYER_INFO: Record<string, string> = {
+  lsct: 'группы слоёв',
+  lsdk: 'группы слоёв',
+  lfx2: 'стили слоя',
+  lrFX: 'стили слоя',
+  vmsk: 'векторные маски',
+  vsms: 'векторные маски',
+  SoCo: 'слои-заливки',
+  GdFl: 'слои-заливки',
+  PtFl: 'слои-заливки',
+  brit: 'корректирующие слои',
+  levl: 'корректирующие слои',
+  curv: 'корректирующие слои',
+  expA: 'корректирующие слои',
+  vibA: 'корректирующие слои',
+  hue2: 'корректирующие слои',
+  blnc: 'корректирующие слои',
+  blwh: 'корректирующие слои',
+  phfl: 'корректирующие слои',
+  mixr: 'корректирующие слои',
+  clrL: 'корректирующие слои',
+  nvrt: 'корректирующие слои',
+  post: 'корректирующие слои',
+  thrs: 'корректирующие слои',
+  grdm: 'корректирующие слои',
+  selc: 'корректирующие слои'
+};
+
+export interface PSDLayer {
+  name: string;
+  visible: boolean;
+  // Непрозрачность 0–100
+  opacity: number;
+  blendMode: BlendMode;
+  isBackground: boolean;
+  // RGBA-пиксели размером с документ
+  pixels: Uint8ClampedArray;
+}
+
+// Слой для записи в PSD; пиксели размером с документ
+export interface PSDLayerInput {
+  name: string;
+  visible: boolean;
+  // Непрозрачность 0–100
+  opacity: number;
+  blendMode: BlendMode;
+  imageData: DecodedImage | ImageData;
+}
+
+export interface PSDEncodeOptions {
+  // Слои снизу вверх; без слоёв записывается только сведённое изображение
+  layers?: PSDLayerInput[];
+}
+
+export interface PSDDecodeResult {
+  width: number;
+  height: number;
+  // Сведённое изображение из конца файла
+  composite: Uint8ClampedArray;
+  // Слои снизу вверх; пусто, если слоёв нет или их нельзя воспроизвести
+  layers: PSDLayer[];
+  // Причина, по которой вместо слоёв используется сведённое изображение
+  fallbackReason: string | null;
+}
+
+interface ChannelInfo {
+  id: number;
+  length: number;
+}
+
+interface LayerRecord {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+  channels: ChannelInfo[];
+  blendKey: string;
+  opacity: number;
+  clipping: number;
+  flags: number;
+  name: string;
+  unsupported: string | null;
+}
+
+// Последовательное чтение чисел big-endian
+class BinaryReader {
+  position: number;
+  private readonly view: DataView;
+  readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array, position = 0) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.position = position;
+  }
+
+  private ensure(size: number): void {
+    if (this.position + size > this.bytes.length) {
+      throw new Error('Файл PSD обрезан');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.bytes[this.position++];
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.position);
+    this.position += 2;
+    return value;
+  }
+
+  int16(): number {
+    this.ensure(2);
+    const value = this.view.getInt16(this.position);
+    this.position += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.position);
+    this.position += 4;
+    return value;
+  }
+
+  int32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.position);
+    this.position += 4;
+    return value;
+  }
+
+  ascii(length: number): string {
+    this.ensure(length);
+    const text = String.fromCharCode(...this.bytes.subarray(this.position, this.position + length));
+    this.position += length;
+    return text;
+  }
+
+  skip(length: number): void {
+    this.ensure(length);
+    this.position += length;
+  }
+}
+
+function readLayerRecord(reader: BinaryReader): LayerRecord {
+  const top = reader.int32();
+  const left = reader.int32();
+  const bottom = reader.int32();
+  const right = reader.int32();
+
+  const channelCount = reader.uint16();
+  const channels: ChannelInfo[] = [];
+  for (let i = 0; i < channelCount; i++) {
+    channels.push({ id: reader.int16(), length: reader.uint32() });
+  }
+
+  if (reader.ascii(4) !== '8BIM') {
+    throw new Error('Повреждена запись слоя PSD');
+  }
+
+  const blendKey = reader.ascii(4);
+  const opacity = reader.uint8();
+  const clipping = reader.uint8();
+  const flags = reader.uint8();
+  reader.skip(1);
+
+  const extraLength = reader.uint32();
+  const extraEnd = reader.position + extraLength;
+
+  // Маска слоя и диапазоны наложения
+  reader.skip(reader.uint32());
+  reader.skip(reader.uint32());
+
+  // Имя в формате Pascal, дополненное до кратного 4 размера
+  const nameLength = reader.uint8();
+  let name = reader.ascii(nameLength);
+  reader.skip((4 - ((nameLength + 1) % 4)) % 4);
+
+  let unsupported: string | null = null;
+
+  // Дополнительные блоки информации о слое
+  while (reader.position + 12 <= extraEnd) {
+    const signature = reader.ascii(4);
+    if (!RESOURCE_SIGNATURES.includes(signature)) {
+      throw new Error('Повреждён дополнительный блок слоя PSD');
+    }
+    const key = reader.ascii(4);
+    const length = reader.uint32();
+    const blockEnd = reader.position + length;
+
+    if (key === 'luni') {
+      // Имя в Юникоде: длина в символах и UTF-16BE
+      const charCount = reader.uint32();
+      const chars: number[] = [];
+      for (let i = 0; i < charCount; i++) {
+        chars.push(reader.uint16());
+      }
+      name = String.fromCharCode(...chars).replace(/\0+$/, '');
+    } else if (key in UNSUPPORTED_LAYER_INFO) {
+      // Разделитель группы с типом 0 — обычный слой
+      const isPlainDivider = (key === 'lsct' || key === 'lsdk') && length >= 4 && reader.uint32() === 0;
+      if (!isPlainDivider) {
+        unsupported ??= UNSUPPORTED_LAYER_INFO[key];
+      }
+    }
+
+    reader.position = blockEnd;
+  }
+
+  reader.position = extraEnd;
+
+  return { top, left, bottom, right, channels, blendKey, opacity, clipping, flags, name, unsupported };
+}
+
+// Распаковывает канал размером width × height, начиная с текущей позиции
+function readChannelData(reader: BinaryReader, compression: number, width: number, height: number): Uint8Array {
+  const size = width * height;
+
+  if (compression === COMPRESSION_RAW) {
+    const data = reader.bytes.slice(reader.position, reader.position + size);
+    reader.skip(size);
+    return data;
+  }
+
+  if (compression === COMPRESSION_RLE) {
+    reader.skip(height * 2);
+    const { data, bytesRead } = packBitsDecode(reader.bytes, size, reader.position);
+    reader.position += bytesRead;
+    return data;
+  }
+
+  throw new Error(`Неподдерживаемое сжатие каналов PSD: ${compression}`);
+}
+
+// Переносит каналы слоя в RGBA-буфер размером с документ с учётом границ слоя
+function composeLayerPixels(
+  record: LayerRecord,
+  channelData: Map<number, Uint8Array>,
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  // Пиксели вне границ слоя (и весь слой без данных) остаются прозрачными
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const layerWidth = record.right - record.left;
+  const red = channelData.get(0);
+  const green = channelData.get(1);
+  const blue = channelData.get(2);
+  const alpha = channelData.get(CHANNEL_ALPHA);
+
+  for (let y = Math.max(0, record.top); y < Math.min(height, record.bottom); y++) {
+    for (let x = Math.max(0, record.left); x < Math.min(width, record.right); x++) {
+      const src = (y - record.top) * layerWidth + (x - record.left);
+      const dst = (y * width + x) * 4;
+      pixels[dst] = red ? red[src] : 0;
+      pixels[dst + 1] = green ? green[src] : 0;
+      pixels[dst + 2] = blue ? blue[src] : 0;
+      pixels[dst + 3] = alpha ? alpha[src] : 255;
+    }
+  }
+
+  return pixels;
+}
+
+function readLayers(
+  reader: BinaryReader,
+  sectionEnd: number,
+  width: number,
+  height: number
+): { layers: PSDLayer[]; hasMergedAlpha: boolean; fallbackReason: string | null } {
+  if (reader.position >= sectionEnd) {
+    return { layers: [], hasMergedAlpha: false, fallbackReason: null };
+  }
+
+  const layerInfoLength = reader.uint32();
+  if (layerInfoLength === 0) {
+    return { layers: [], hasMergedAlpha: false, fallbackReason: null };
+  }
+
+  // Отрицательное число слоёв означает, что первый альфа-канал сведённого изображения — прозрачность
+  const rawCount = reader.int16();
+  const count = Math.abs(rawCount);
+  const records: LayerRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    records.push(readLayerRecord(reader));
+  }
+
+  const blendModes = new Map(Object.entries(PSD_BLEND_MODES).map(([mode, key]) => [key, mode as BlendMode]));
+  let fallbackReason: string | null = null;
+
+  for (const record of records) {
+    if (record.unsupported) {
+      fallbackReason = record.unsupported;
+    } else if (!blendModes.has(record.blendKey)) {
+      fallbackReason = `режим наложения «${record.blendKey.trim()}»`;
+    } else if (record.clipping !== 0) {
+      fallbackReason = 'обтравочные маски';
+    } else if (record.channels.some(c => c.id === CHANNEL_USER_MASK || c.id === CHANNEL_REAL_USER_MASK)) {
+      fallbackReason = 'маски слоёв';
+    }
+    if (fallbackReason) break;
+  }
+
+  const layers: PSDLayer[] = [];
+
+  for (const record of records) {
+    const layerWidth = record.right - record.left;
+    const layerHeight = record.bottom - record.top;
+    const channelData = new Map<number, Uint8Array>();
+
+    for (const channel of record.channels) {
+      const channelEnd = reader.position + channel.length;
+      const isImageChannel = channel.id >= CHANNEL_ALPHA && channel.id <= 2;
+
+      if (!fallbackReason && isImageChannel && channel.length >= 2) {
+        const compression = reader.uint16();
+        if (compression !== COMPRESSION_RAW && compression !== COMPRESSION_RLE) {
+          fallbackReason = 'сжатие ZIP';
+        } else if (layerWidth > 0 && layerHeight > 0) {
+          channelData.set(channel.id, readChannelData(reader, compression, layerWidth, layerHeight));
+        }
+      }
+
+      reader.position = channelEnd;
+    }
+
+    if (!fallbackReason) {
+      layers.push({
+        name: record.name,
+        visible: (record.flags & LAYER_FLAG_HIDDEN) === 0,
+        opacity: Math.round(record.opacity * 100 / 255),
+        blendMode: blendModes.get(record.blendKey)!,
+        isBackground: layers.length === 0 && !channelData.has(CHANNEL_ALPHA),
+        pixels: composeLayerPixels(record, channelData, width, height)
+      });
+    }
+  }
+
+  return { layers: fallbackReason ? [] : layers, hasMergedAlpha: rawCount < 0, fallbackReason };
+}
+
+function readComposite(
+  reader: BinaryReader,
+  channelCount: number,
+  width: number,
+  height: number,
+  hasMergedAlpha: boolean
+): Uint8ClampedArray {
+  const compression = reader.uint16();
+  const size = width * height;
+  const planes: Uint8Array[] = [];
+
+  if (compression === COMPRESSION_RLE) {
+    // Счётчики байтов всех строк всех каналов идут перед данными
+    reader.skip(channelCount * height * 2);
+    for (let c = 0; c < channelCount; c++) {
+      const { data, bytesRead } = packBitsDecode(reader.bytes, size, reader.position);
+      reader.position += bytesRead;
+      planes.push(data);
+    }
+  } else if (compression === COMPRESSION_RAW) {
+    for (let c = 0; c < channelCount; c++) {
+      planes.push(readChannelData(reader, COMPRESSION_RAW, width, height));
+    }
+  } else {
+    throw new Error(`Неподдерживаемое сжатие сведённого изображения PSD: ${compression}`);
+  }
+
+  const alpha = hasMergedAlpha && channelCount > 3 ? planes[3] : null;
+  const pixels = new Uint8ClampedArray(size * 4);
+  for (let i = 0; i < size; i++) {
+    pixels[i * 4] = planes[0][i];
+    pixels[i * 4 + 1] = planes[1][i];
+    pixels[i * 4 + 2] = planes[2][i];
+    pixels[i * 4 + 3] = alpha ? alpha[i] : 255;
+  }
+
+  return pixels;
+}
+
+/**
+ * Декодирует файл PSD (8 бит, RGB)
+ * @param buffer Содержимое файла
+ * @returns Сведённое изображение и слои, если их можно воспроизвести в редакторе
+ */
+export function decodePSD(buffer: ArrayBuffer): PSDDecodeResult {
+  const reader = new BinaryReader(new Uint8Array(buffer));
+
+  if (reader.bytes.length < HEADER_SIZE || reader.ascii(4) !== SIGNATURE) {
+    throw new Error('Файл не является документом Photoshop');
+  }
+
+  const version = reader.uint16();
+  if (version !== PSD_VERSION) {
+    throw new Error('Большие документы Photoshop (PSB) не поддерживаются');
+  }
+
+  reader.skip(6);
+  const channelCount = reader.uint16();
+  const height = reader.uint32();
+  const width = reader.uint32();
+  const depth = reader.uint16();
+  const colorMode = reader.uint16();
+
+  if (colorMode !== COLOR_MODE_RGB) {
+    throw new Error('Поддерживаются только документы PSD в цветовой модели RGB');
+  }
+  if (depth !== 8) {
+    throw new Error(`Поддерживаются только документы PSD с 8 битами на канал (в файле ${depth})`);
+  }
+  if (width === 0 || height === 0 || channelCount < 3) {
+    throw new Error('Некорректный заголовок PSD');
+  }
+
+  // Данные цветовой модели и ресурсы изображения
+  reader.skip(reader.uint32());
+  reader.skip(reader.uint32());
+
+  const layerSectionLength = reader.uint32();
+  const layerSectionEnd = reader.position + layerSectionLength;
+  const { layers, hasMergedAlpha, fallbackReason } = readLayers(reader, layerSectionEnd, width, height);
+  reader.position = layerSectionEnd;
+
+  const composite = readComposite(reader, channelCount, width, height, hasMergedAlpha);
+
+  return { width, height, composite, layers, fallbackReason };
+}
+
+// Последовательная запись чисел big-endian; данные накапливаются частями
+class BinaryWriter {
+  private readonly chunks: Uint8Array[] = [];
+  length = 0;
+
+  bytes(data: Uint8Array): void {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  private number(size: number, write: (view: DataView) => void): void {
+    const chunk = new Uint8Array(size);
+    write(new DataView(chunk.buffer));
+    this.bytes(chunk);
+  }
+
+  uint8(value: number): void {
+    this.number(1, view => view.setUint8(0, value));
+  }
+
+  uint16(value: number): void {
+    this.number(2, view => view.setUint16(0, value));
+  }
+
+  int16(value: number): void {
+    this.number(2, view => view.setInt16(0, value));
+  }
+
+  uint32(value: number): void {
+    this.number(4, view => view.setUint32(0, value));
+  }
+
+  int32(value: number): void {
+    this.number(4, view => view.setInt32(0, value));
+  }
+
+  ascii(text: string): void {
+    this.bytes(Uint8Array.from(text, char => char.charCodeAt(0)));
+  }
+
+  zeros(count: number): void {
+    if (count > 0) this.bytes(new Uint8Array(count));
+  }
+
+  toUint8Array(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+}
+
+interface Bounds {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Границы непрозрачной области слоя в пределах документа
+function getOpaqueBounds(image: DecodedImage | ImageData, width: number, height: number): Bounds {
+  const bounds = { top: height, left: width, bottom: 0, right: 0 };
+  const maxY = Math.min(height, image.height);
+  const maxX = Math.min(width, image.width);
+
+  for (let y = 0; y < maxY; y++) {
+    for (let x = 0; x < maxX; x++) {
+      if (image.data[(y * image.width + x) * 4 + 3] !== 0) {
+        bounds.top = Math.min(bounds.top, y);
+        bounds.left = Math.min(bounds.left, x);
+        bounds.bottom = Math.max(bounds.bottom, y + 1);
+        bounds.right = Math.max(bounds.right, x + 1);
+      }
+    }
+  }
+
+  return bounds.bottom > bounds.top ? bounds : { top: 0, left: 0, bottom: 0, right: 0 };
+}
+
+// Выделяет один канал (0–3 = R, G, B, A) из области RGBA-изображения
+function extractChannel(image: DecodedImage | ImageData, bounds: Bounds, channel: number): Uint8Array {
+  const width = bounds.right - bounds.left;
+  const plane = new Uint8Array(width * (bounds.bottom - bounds.top));
+
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    const row = (y - bounds.top) * width;
+    for (let x = bounds.left; x < bounds.right; x++) {
+      plane[row + x - bounds.left] = image.data[(y * image.width + x) * 4 + channel];
+    }
+  }
+
+  return plane;
+}
+
+// Сжимает канал построчно: счётчики байтов строк и сжатые строки
+function compressRows(plane: Uint8Array, width: number, height: number): { counts: Uint8Array; data: Uint8Array[] } {
+  const counts = new Uint8Array(height * 2);
+  const countsView = new DataView(counts.buffer);
+  const data: Uint8Array[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const packed = packBitsEncode(plane.subarray(y * width, (y + 1) * width));
+    countsView.setUint16(y * 2, packed.length);
+    data.push(packed);
+  }
+
+  return { counts, data };
+}
+
+// Имя слоя в формате Pascal допускает только однобайтовые символы
+const toPascalName = (name: string) => name.replace(/[^\x20-\x7e]/g, '?').slice(0, 255);
+
+function writeLayers(writer: BinaryWriter, layers: PSDLayerInput[], width: number, height: number): void {
+  const records = new BinaryWriter();
+  const channels = new BinaryWriter();
+
+  // Отрицательное число слоёв: первый альфа-канал сведённого изображения — прозрачность
+  records.int16(-layers.length);
+
+  for (const layer of layers) {
+    const bounds = getOpaqueBounds(layer.imageData, width, height);
+    const layerWidth = bounds.right - bounds.left;
+    const layerHeight = bounds.bottom - bounds.top;
+
+    records.int32(bounds.top);
+    records.int32(bounds.left);
+    records.int32(bounds.bottom);
+    records.int32(bounds.right);
+    records.uint16(4);
+
+    for (const [id, channel] of [[CHANNEL_ALPHA, 3], [0, 0], [1, 1], [2, 2]]) {
+      channels.uint16(COMPRESSION_RLE);
+      let length = 2;
+
+      if (layerWidth > 0) {
+        const { counts, data } = compressRows(
+          extractChannel(layer.imageData, bounds, channel),
+          layerWidth,
+          layerHeight
+        );
+        channels.bytes(counts);
+        data.forEach(row => channels.bytes(row));
+        length += counts.length + data.reduce((total, row) => total + row.length, 0);
+      }
+
+      records.int16(id);
+      records.uint32(length);
+    }
+
+    records.ascii('8BIM');
+    records.ascii(PSD_BLEND_MODES[layer.blendMode]);
+    records.uint8(Math.round(layer.opacity * 255 / 100));
+    records.uint8(0);
+    records.uint8(layer.visible ? 0 : LAYER_FLAG_HIDDEN);
+    records.uint8(0);
+
+    // Дополнительные данные: пустые маска и диапазоны наложения, имя, имя в Юникоде
+    const pascalName = toPascalName(layer.name);
+    const namePadding = (4 - ((pascalName.length + 1) % 4)) % 4;
+    const unicodeLength = 4 + layer.name.length * 2;
+    const unicodePadding = unicodeLength % 4;
+
+    records.uint32(8 + pascalName.length + 1 + namePadding + 12 + unicodeLength + unicodePadding);
+    records.uint32(0);
+    records.uint32(0);
+    records.uint8(pascalName.length);
+    records.ascii(pascalName);
+    records.zeros(namePadding);
+
+    records.ascii('8BIM');
+    records.ascii('luni');
+    records.uint32(unicodeLength + unicodePadding);
+    records.uint32(layer.name.length);
+    for (let i = 0; i < layer.name.length; i++) {
+      records.uint16(layer.name.charCodeAt(i));
+    }
+    records.zeros(unicodePadding);
+  }
+
+  // Длина информации о слоях выравнивается до чётной
+  const layerInfoLength = records.length + channels.length;
+  const layerInfoPadding = layerInfoLength % 2;
+
+  writer.uint32(4 + layerInfoLength + layerInfoPadding + 4);
+  writer.uint32(layerInfoLength + layerInfoPadding);
+  writer.bytes(records.toUint8Array());
+  writer.bytes(channels.toUint8Array());
+  writer.zeros(layerInfoPadding);
+  // Глобальная маска слоёв отсутствует
+  writer.uint32(0);
+}
+
+/**
+ * Кодирует документ в формат PSD (8 бит, RGB, сжатие RLE)
+ * @param composite Сведённое изображение; задаёт размеры документа
+ * @param options Слои документа
+ * @returns Байты файла
+ */
+export function encodePSD(composite: DecodedImage | ImageData, options: PSDEncodeOptions = {}): Uint8Array {
+  const { width, height } = composite;
+  const layers = options.layers ?? [];
+  // Прозрачность сведённого изображения сохраняется только вместе со слоями,
+  // иначе Photoshop считает четвёртый канал обычным альфа-каналом
+  const channelCount = layers.length > 0 ? 4 : 3;
+  const writer = new BinaryWriter();
+
+  writer.ascii(SIGNATURE);
+  writer.uint16(PSD_VERSION);
+  writer.zeros(6);
+  writer.uint16(channelCount);
+  writer.uint32(height);
+  writer.uint32(width);
+  writer.uint16(8);
+  writer.uint16(COLOR_MODE_RGB);
+
+  // Данные цветовой модели и ресурсы изображения не записываются
+  writer.uint32(0);
+  writer.uint32(0);
+
+  if (layers.length > 0) {
+    writeLayers(writer, layers, width, height);
+  } else {
+    writer.uint32(0);
+  }
+
+  // Сведённое изображение: счётчики строк всех каналов, затем сжатые строки
+  const bounds = { top: 0, left: 0, bottom: height, right: width };
+  const planes = [0, 1, 2, 3].slice(0, channelCount).map(channel => compressRows(extractChannel(composite, bounds, channel), width, height));
+
+  writer.uint16(COMPRESSION_RLE);
+  planes.forEach(plane => writer.bytes(plane.counts));
+  planes.forEach(plane => plane.data.forEach(row => writer.bytes(row)));
+
+  return writer.toUint8Array();
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { createPalette, indexedToRGBA, quantizeImage, type QuantizeMethod } from './quantize';
+import type { DecodedImage } from './decodedImage';
+
+const createImage = (pixels: number[][], width = pixels.length): DecodedImage => ({
+  width,
+  height: pixels.length / width,
+  data: new Uint8ClampedArray(pixels.flat())
+});
+
+// Горизонтальный градиент из 64 оттенков красного
+const gradient = createImage(Array.from({ length: 64 }, (_, i) => [i * 4, 0, 0, 255]));
+
+describe('createPalette', () => {
+  it.each<QuantizeMethod>(['median-cut', 'octree'])('%s: должен сохранять точные цвета, если их не больше размера палитры', (method) => {
+    const image = createImage([[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 255], [255, 0, 0, 255]]);
+    const { palette, transparentIndex } = createPalette(image, { method, maxColors: 4 });
+
+    expect(transparentIndex).toBeNull();
+    expect(palette).toHaveLength(3);
+    expect(palette).toEqual(expect.arrayContaining([[255, 0, 0], [0, 255, 0], [0, 0, 255]]));
+  });
+
+  it.each<QuantizeMethod>(['median-cut', 'octree'])('%s: не должен превышать размер палитры', (method) => {
+    expect(createPalette(gradient, { method, maxColors: 8 }).palette.length).toBeLessThanOrEqual(8);
+  });
+
+  it('веб-палитра должна состоять из 216 цветов с шагом 51', () => {
+    const { palette } = createPalette(gradient, { method: 'web' });
+
+    expect(palette).toHaveLength(216);
+    expect(palette.flat().every(value => value % 51 === 0)).toBe(true);
+  });
+
+  it('должен отводить прозрачному цвету последний индекс в пределах размера палитры', () => {
+    const image = createImage([[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 255], [0, 0, 0, 0]]);
+    const { palette, transparentIndex } = createPalette(image, { maxColors: 3 });
+
+    expect(palette).toHaveLength(3);
+    expect(transparentIndex).toBe(2);
+  });
+
+  it('не должен отводить прозрачный индекс, если прозрачность отключена', () => {
+    const image = createImage([[255, 0, 0, 255], [0, 0, 0, 0]]);
+
+    expect(createPalette(image, { transparency: false }).transparentIndex).toBeNull();
+  });
+});
+
+describe('quantizeImage', () => {
+  it('должен сопоставлять пиксели ближайшим цветам палитры', () => {
+    const image = createImage([[250, 10, 10, 255], [10, 10, 240, 255], [0, 0, 0, 50]]);
+    const indexed = quantizeImage(image, {}, { palette: [[255, 0, 0], [0, 0, 255], [0, 0, 0]], transparentIndex: 2 });
+
+    expect(Array.from(indexed.indices)).toEqual([0, 1, 2]);
+    expect(Array.from(indexedToRGBA(indexed))).toEqual([255, 0, 0, 255, 0, 0, 255, 255, 0, 0, 0, 0]);
+  });
+
+  it('дизеринг должен сохранять средний тон', () => {
+    // Серый 128 в палитре из чёрного и белого: примерно половина пикселей белые
+    const gray = createImage(Array.from({ length: 256 }, () => [128, 128, 128, 255]), 16);
+    const paletteInfo = { palette: [[0, 0, 0], [255, 255, 255]] as [number, number, number][], transparentIndex: null };
+
+    for (const dither of ['floyd-steinberg', 'bayer'] as const) {
+      const indexed = quantizeImage(gray, { dither }, paletteInfo);
+      const white = indexed.indices.reduce((count, index) => count + index, 0);
+
+      expect(white).toBeGreaterThan(96);
+      expect(white).toBeLessThan(160);
+    }
+  });
+});
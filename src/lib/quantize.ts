@@ -0,0 +1,419 @@
+// Квантование цвета: построение палитры и перевод изображения в индексированные цвета
+
+import type { DecodedImage } from './decodedImage';
+import { BAYER_MATRIX_8, ERROR_DIFFUSION_KERNELS, type DitherMethod } from './dither';
+
+export type QuantizeMethod = 'median-cut' | 'octree' | 'web';
+
+export type PaletteColor = [number, number, number];
+
+export const QUANTIZE_METHOD_INFO: Record<QuantizeMethod, string> = {
+  'median-cut': 'Медианное сечение',
+  octree: 'Октодерево',
+  web: 'Веб-палитра (216 цветов)'
+};
+
+export interface QuantizeOptions {
+  method?: QuantizeMethod;
+  // Размер палитры (2–256), включая прозрачный цвет
+  maxColors?: number;
+  dither?: DitherMethod;
+  // Отводить ли отдельный индекс под прозрачные пиксели
+  transparency?: boolean;
+  // Пиксели с альфой ниже порога считаются прозрачными
+  alphaThreshold?: number;
+}
+
+export interface PaletteInfo {
+  palette: PaletteColor[];
+  // Индекс прозрачного цвета в палитре; null, если прозрачности нет
+  transparentIndex: number | null;
+}
+
+// Изображение в индексированных цветах
+export interface IndexedImage extends PaletteInfo {
+  width: number;
+  height: number;
+  indices: Uint8Array;
+}
+
+const DEFAULT_ALPHA_THRESHOLD = 128;
+
+// Уровни веб-палитры: 6 значений на канал
+const WEB_LEVELS = [0, 51, 102, 153, 204, 255];
+
+// Медианное сечение работает с гистограммой 5 бит на канал
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+
+interface ColorBox {
+  colors: number[];
+  count: number;
+}
+
+interface HistogramEntry {
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+function buildHistogram(data: ArrayLike<number>, alphaThreshold: number): Map<number, HistogramEntry> {
+  const histogram = new Map<number, HistogramEntry>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < alphaThreshold) continue;
+
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const key = ((r >> HISTOGRAM_SHIFT) << (HISTOGRAM_BITS * 2)) | ((g >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) | (b >> HISTOGRAM_SHIFT);
+    const entry = histogram.get(key);
+
+    if (entry) {
+      entry.count++;
+      entry.r += r;
+      entry.g += g;
+      entry.b += b;
+    } else {
+      histogram.set(key, { count: 1, r, g, b });
+    }
+  }
+
+  return histogram;
+}
+
+function medianCut(data: ArrayLike<number>, maxColors: number, alphaThreshold: number): PaletteColor[] {
+  const histogram = buildHistogram(data, alphaThreshold);
+  if (histogram.size === 0) return [];
+
+  const channel = (key: number, c: number) => (key >> (HISTOGRAM_BITS * (2 - c))) & ((1 << HISTOGRAM_BITS) - 1);
+  const boxes: ColorBox[] = [{
+    colors: [...histogram.keys()],
+    count: [...histogram.values()].reduce((total, entry) => total + entry.count, 0)
+  }];
+
+  while (boxes.length < maxColors) {
+    // Делим коробку с наибольшим произведением протяжённости на число пикселей
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const key of box.colors) {
+          const value = channel(key, c);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        const score = (max - min) * box.count;
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+          bestChannel = c;
+        }
+      }
+    });
+
+    if (best === -1) break;
+
+    const box = boxes[best];
+    box.colors.sort((a, b) => channel(a, bestChannel) - channel(b, bestChannel));
+
+    // Медиана по числу пикселей, а не по числу цветов
+    let accumulated = 0;
+    let split = 1;
+    for (let i = 0; i < box.colors.length - 1; i++) {
+      accumulated += histogram.get(box.colors[i])!.count;
+      split = i + 1;
+      if (accumulated >= box.count / 2) break;
+    }
+
+    const lower = box.colors.slice(0, split);
+    const upper = box.colors.slice(split);
+    const lowerCount = lower.reduce((total, key) => total + histogram.get(key)!.count, 0);
+    boxes.splice(best, 1, { colors: lower, count: lowerCount }, { colors: upper, count: box.count - lowerCount });
+  }
+
+  // Цвет коробки — среднее всех её пикселей
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0, count = 0;
+    for (const key of box.colors) {
+      const entry = histogram.get(key)!;
+      r += entry.r;
+      g += entry.g;
+      b += entry.b;
+      count += entry.count;
+    }
+    return [Math.round(r / count), Math.round(g / count), Math.round(b / count)];
+  });
+}
+
+interface OctreeNode {
+  children: (OctreeNode | null)[];
+  isLeaf: boolean;
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+const OCTREE_DEPTH = 8;
+
+function octree(data: ArrayLike<number>, maxColors: number, alphaThreshold: number): PaletteColor[] {
+  // Узлы, которые можно свернуть, по уровням
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leafCount = 0;
+
+  const createNode = (level: number): OctreeNode => {
+    const node: OctreeNode = { children: new Array(8).fill(null), isLeaf: level === OCTREE_DEPTH, count: 0, r: 0, g: 0, b: 0 };
+    if (node.isLeaf) {
+      leafCount++;
+    } else {
+      reducible[level].push(node);
+    }
+    return node;
+  };
+
+  const root = createNode(0);
+
+  const reduce = () => {
+    let level = OCTREE_DEPTH - 1;
+    while (level > 0 && reducible[level].length === 0) level--;
+    const node = reducible[level].pop();
+    if (!node) return;
+
+    for (const child of node.children) {
+      if (!child) continue;
+      node.r += child.r;
+      node.g += child.g;
+      node.b += child.b;
+      node.count += child.count;
+      leafCount--;
+    }
+    node.children.fill(null);
+    node.isLeaf = true;
+    leafCount++;
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < alphaThreshold) continue;
+
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    let node = root;
+
+    for (let level = 0; !node.isLeaf; level++) {
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      node.children[index] ??= createNode(level + 1);
+      node = node.children[index]!;
+    }
+
+    node.count++;
+    node.r += r;
+    node.g += g;
+    node.b += b;
+
+    while (leafCount > maxColors) reduce();
+  }
+
+  const palette: PaletteColor[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.isLeaf) {
+      if (node.count > 0) {
+        palette.push([Math.round(node.r / node.count), Math.round(node.g / node.count), Math.round(node.b / node.count)]);
+      }
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+
+  return palette;
+}
+
+function webPalette(): PaletteColor[] {
+  const palette: PaletteColor[] = [];
+  for (const r of WEB_LEVELS) {
+    for (const g of WEB_LEVELS) {
+      for (const b of WEB_LEVELS) {
+        palette.push([r, g, b]);
+      }
+    }
+  }
+  return palette;
+}
+
+/**
+ * Строит палитру для изображения
+ * @param image Изображение в RGBA
+ * @param options Метод квантования, размер палитры и обработка прозрачности
+ * @returns Палитра и индекс прозрачного цвета
+ */
+export function createPalette(image: DecodedImage | ImageData, options: QuantizeOptions = {}): PaletteInfo {
+  const method = options.method ?? 'median-cut';
+  const alphaThreshold = options.alphaThreshold ?? DEFAULT_ALPHA_THRESHOLD;
+  const maxColors = Math.max(2, Math.min(256, options.maxColors ?? 256));
+
+  let hasTransparency = false;
+  if (options.transparency ?? true) {
+    for (let i = 3; i < image.data.length; i += 4) {
+      if (image.data[i] < alphaThreshold) {
+        hasTransparency = true;
+        break;
+      }
+    }
+  }
+
+  // Прозрачный цвет занимает один индекс палитры
+  const colorLimit = hasTransparency ? maxColors - 1 : maxColors;
+  let palette: PaletteColor[];
+
+  switch (method) {
+    case 'octree':
+      palette = octree(image.data, colorLimit, alphaThreshold);
+      break;
+    case 'web':
+      palette = webPalette().slice(0, colorLimit);
+      break;
+    default:
+      palette = medianCut(image.data, colorLimit, alphaThreshold);
+  }
+
+  if (palette.length === 0) {
+    palette.push([0, 0, 0]);
+  }
+
+  if (!hasTransparency) {
+    return { palette, transparentIndex: null };
+  }
+
+  return { palette: [...palette, [0, 0, 0]], transparentIndex: palette.length };
+}
+
+/**
+ * Переводит изображение в индексированные цвета
+ * @param image Изображение в RGBA
+ * @param options Параметры квантования и дизеринга
+ * @param paletteInfo Готовая палитра (по умолчанию строится по самому изображению)
+ * @returns Индексы палитры для каждого пикселя
+ */
+export function quantizeImage(
+  image: DecodedImage | ImageData,
+  options: QuantizeOptions = {},
+  paletteInfo: PaletteInfo = createPalette(image, options)
+): IndexedImage {
+  const { width, height, data } = image;
+  const { palette, transparentIndex } = paletteInfo;
+  const dither = options.dither ?? 'none';
+  const alphaThreshold = options.alphaThreshold ?? DEFAULT_ALPHA_THRESHOLD;
+  const colorCount = transparentIndex === null ? palette.length : palette.length - 1;
+  const indices = new Uint8Array(width * height);
+
+  // Ближайший цвет палитры с кэшем по значению RGB
+  const cache = new Map<number, number>();
+  const nearest = (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      const [pr, pg, pb] = palette[i];
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+
+    cache.set(key, best);
+    return best;
+  };
+
+  const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  const isTransparent = (pixel: number) => transparentIndex !== null && data[pixel * 4 + 3] < alphaThreshold;
+
+  if (dither === 'none' || dither === 'bayer') {
+    // Амплитуда порогов Байера — примерный шаг палитры по каждому каналу
+    const spread = 255 / Math.max(1, Math.cbrt(colorCount) - 1);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (isTransparent(i)) {
+          indices[i] = transparentIndex!;
+          continue;
+        }
+        const offset = dither === 'bayer' ? ((BAYER_MATRIX_8[y % 8][x % 8] + 0.5) / 64 - 0.5) * spread : 0;
+        indices[i] = nearest(clamp(data[i * 4] + offset), clamp(data[i * 4 + 1] + offset), clamp(data[i * 4 + 2] + offset));
+      }
+    }
+
+    return { width, height, palette, transparentIndex, indices };
+  }
+
+  // Рассеивание ошибки по трём каналам
+  const kernel = ERROR_DIFFUSION_KERNELS[dither];
+  const buffer = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    buffer[i * 3] = data[i * 4];
+    buffer[i * 3 + 1] = data[i * 4 + 1];
+    buffer[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (isTransparent(i)) {
+        indices[i] = transparentIndex!;
+        continue;
+      }
+
+      const r = clamp(buffer[i * 3]);
+      const g = clamp(buffer[i * 3 + 1]);
+      const b = clamp(buffer[i * 3 + 2]);
+      const index = nearest(r, g, b);
+      indices[i] = index;
+
+      const errors = [r - palette[index][0], g - palette[index][1], b - palette[index][2]];
+      for (const [dx, dy, weight] of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          const target = (ny * width + nx) * 3;
+          buffer[target] += errors[0] * weight;
+          buffer[target + 1] += errors[1] * weight;
+          buffer[target + 2] += errors[2] * weight;
+        }
+      }
+    }
+  }
+
+  return { width, height, palette, transparentIndex, indices };
+}
+
+/**
+ * Восстанавливает RGBA-пиксели индексированного изображения (для предпросмотра)
+ */
+export function indexedToRGBA(image: IndexedImage): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(image.width * image.height * 4);
+
+  for (let i = 0; i < image.indices.length; i++) {
+    const index = image.indices[i];
+    if (index === image.transparentIndex) continue;
+    const [r, g, b] = image.palette[index];
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = 255;
+  }
+
+  return data;
+}
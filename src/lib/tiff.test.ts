@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { decodeTIFF, encodeTIFF, type TIFFColorMode, type TIFFCompression } from './tiff';
+import type { DecodedImage } from './decodedImage';
+
+// Собирает TIFF с порядком байтов Motorola: теги [номер, тип, значения] и данные после IFD
+function buildBigEndianTIFF(tags: [number, number, number[]][], data: Uint8Array): ArrayBuffer {
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const dataOffset = 8 + ifdSize;
+  const buffer = new ArrayBuffer(dataOffset + data.length);
+  const view = new DataView(buffer);
+
+  view.setUint16(0, 0x4d4d);
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  view.setUint16(8, tags.length);
+
+  tags.forEach(([id, type, values], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, id);
+    view.setUint16(entry + 2, type);
+    view.setUint32(entry + 4, values.length);
+    // Значения в тестах помещаются в запись: одно LONG или до двух SHORT
+    values.forEach((value, j) => (type === 3 ? view.setUint16(entry + 8 + j * 2, value) : view.setUint32(entry + 8, value)));
+  });
+
+  new Uint8Array(buffer).set(data, dataOffset);
+  return buffer;
+}
+
+const createImage = (width: number, height: number): DecodedImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([(i * 37) % 256, (i * 11) % 256, (i * 5) % 256, i % 3 === 0 ? 255 : 100], i * 4);
+  }
+  return { width, height, data };
+};
+
+describe('encodeTIFF / decodeTIFF', () => {
+  const compressions: TIFFCompression[] = ['none', 'lzw', 'packbits'];
+
+  it.each(compressions)('сжатие %s должно сохранять RGBA без потерь', (compression) => {
+    const image = createImage(40, 30);
+    const decoded = decodeTIFF(encodeTIFF(image, { compression }).buffer as ArrayBuffer);
+
+    expect(decoded.width).toBe(40);
+    expect(decoded.height).toBe(30);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it.each<TIFFColorMode>(['rgb', 'gray'])('режим %s должен отбрасывать прозрачность', (colorMode) => {
+    const image = createImage(3, 1);
+    const decoded = decodeTIFF(encodeTIFF(image, { colorMode, compression: 'lzw' }).buffer as ArrayBuffer);
+
+    expect(decoded.data[7]).toBe(255);
+    if (colorMode === 'gray') {
+      expect(decoded.data[4]).toBe(decoded.data[5]);
+      expect(decoded.data[5]).toBe(decoded.data[6]);
+    } else {
+      expect(Array.from(decoded.data.subarray(4, 7))).toEqual(Array.from(image.data.subarray(4, 7)));
+    }
+  });
+
+  it('16-битный TIFF должен восстанавливать 8-битные значения', () => {
+    const image = createImage(5, 4);
+    const decoded = decodeTIFF(encodeTIFF(image, { bitsPerSample: 16, compression: 'packbits' }).buffer as ArrayBuffer);
+
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it('должен делить большие изображения на несколько полос', () => {
+    const image = createImage(300, 100);
+    const decoded = decodeTIFF(encodeTIFF(image, { compression: 'lzw' }).buffer as ArrayBuffer);
+
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+});
+
+describe('decodeTIFF', () => {
+  it('должен читать тайлы 16-битных оттенков серого с порядком байтов Motorola', () => {
+    // Изображение 20×2 в двух тайлах 16×16; значение отсчёта = x × 1000
+    const tileSize = 16 * 16 * 2;
+    const data = new Uint8Array(tileSize * 2);
+    const view = new DataView(data.buffer);
+    for (let tile = 0; tile < 2; tile++) {
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          view.setUint16(tile * tileSize + (y * 16 + x) * 2, (tile * 16 + x) * 1000);
+        }
+      }
+    }
+
+    const offset = 8 + 2 + 10 * 12 + 4;
+    const image = decodeTIFF(buildBigEndianTIFF([
+      [256, 3, [20]],
+      [257, 3, [2]],
+      [258, 3, [16]],
+      [259, 3, [1]],
+      [262, 3, [1]],
+      [277, 3, [1]],
+      [322, 3, [16]],
+      [323, 3, [16]],
+      [324, 3, [offset, offset + tileSize]],
+      [325, 3, [tileSize, tileSize]]
+    ], data));
+
+    expect(image.width).toBe(20);
+    expect(image.data[0]).toBe(0);
+    // x = 19 находится во втором тайле: 19000 / 257 ≈ 74
+    expect(image.data[19 * 4]).toBe(74);
+    expect(image.data[(20 + 10) * 4]).toBe(39);
+  });
+
+  it('должен отменять горизонтальный предсказатель', () => {
+    // Строка 10, 20, 30 хранится как разности 10, 10, 10
+    const image = decodeTIFF(buildBigEndianTIFF([
+      [256, 3, [3]],
+      [257, 3, [1]],
+      [258, 3, [8]],
+      [259, 3, [1]],
+      [262, 3, [1]],
+      [273, 4, [8 + 2 + 8 * 12 + 4]],
+      [279, 4, [3]],
+      [317, 3, [2]]
+    ], new Uint8Array([10, 10, 10])));
+
+    expect([image.data[0], image.data[4], image.data[8]]).toEqual([10, 20, 30]);
+  });
+
+  it('должен отклонять файлы без заголовка TIFF', () => {
+    expect(() => decodeTIFF(new Uint8Array([0x42, 0x4d, 0, 0, 0, 0, 0, 0]).buffer)).toThrow('не является изображением TIFF');
+  });
+});
@@ -0,0 +1,464 @@
+// Формат TIFF (baseline): полосы и тайлы, 8/16 бит, оттенки серого, RGB и RGBA,
+// сжатие отсутствует, LZW (с предсказателем) или PackBits. Читается первая страница файла.
+
+import type { DecodedImage } from './decodedImage';
+import { lzwDecode, lzwEncode, TIFF_LZW } from './lzw';
+import { packBitsDecode, packBitsEncode } from './packBits';
+
+export type TIFFCompression = 'none' | 'lzw' | 'packbits';
+export type TIFFColorMode = 'gray' | 'rgb' | 'rgba';
+
+export interface TIFFEncodeOptions {
+  compression?: TIFFCompression;
+  colorMode?: TIFFColorMode;
+  bitsPerSample?: 8 | 16;
+}
+
+export const TIFF_EXTENSIONS = ['.tif', '.tiff'];
+
+const COMPRESSION_CODES: Record<TIFFCompression, number> = {
+  none: 1,
+  lzw: 5,
+  packbits: 32773
+};
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  planarConfiguration: 284,
+  resolutionUnit: 296,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339
+};
+
+const TYPE_BYTE = 1;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+
+const EXTRA_SAMPLE_ASSOCIATED_ALPHA = 1;
+const EXTRA_SAMPLE_UNASSOCIATED_ALPHA = 2;
+const PREDICTOR_HORIZONTAL = 2;
+
+// Целевой размер полосы при записи
+const STRIP_SIZE = 64 * 1024;
+
+// Читает значения тега как массив чисел
+function readTagValues(view: DataView, entry: number, littleEndian: boolean): number[] {
+  const type = view.getUint16(entry + 2, littleEndian);
+  const count = view.getUint32(entry + 4, littleEndian);
+  const size = TYPE_SIZES[type];
+
+  if (!size) {
+    return [];
+  }
+
+  const offset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+  if (offset + size * count > view.byteLength) {
+    throw new Error('Файл TIFF обрезан');
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const pos = offset + i * size;
+    switch (type) {
+      case TYPE_SHORT:
+        values.push(view.getUint16(pos, littleEndian));
+        break;
+      case TYPE_LONG:
+        values.push(view.getUint32(pos, littleEndian));
+        break;
+      case TYPE_RATIONAL:
+        values.push(view.getUint32(pos, littleEndian) / (view.getUint32(pos + 4, littleEndian) || 1));
+        break;
+      default:
+        values.push(view.getUint8(pos));
+    }
+  }
+  return values;
+}
+
+// Распаковывает полосу или тайл
+function decompress(bytes: Uint8Array, compression: number, expectedLength: number): Uint8Array {
+  switch (compression) {
+    case COMPRESSION_CODES.none:
+      // Копия: предсказатель изменяет данные на месте
+      return bytes.slice();
+    case COMPRESSION_CODES.lzw:
+      return lzwDecode(bytes, expectedLength, TIFF_LZW);
+    case COMPRESSION_CODES.packbits:
+      return packBitsDecode(bytes, expectedLength).data;
+    default:
+      throw new Error(`Неподдерживаемое сжатие TIFF: ${compression}`);
+  }
+}
+
+// Отменяет горизонтальный предсказатель: каждый отсчёт хранится как разность с предыдущим
+function undoPredictor(
+  block: Uint8Array,
+  width: number,
+  rows: number,
+  samplesPerPixel: number,
+  bytesPerSample: number,
+  littleEndian: boolean
+): void {
+  const rowLength = width * samplesPerPixel;
+
+  if (bytesPerSample === 1) {
+    for (let y = 0; y < rows; y++) {
+      const start = y * rowLength;
+      for (let i = samplesPerPixel; i < rowLength; i++) {
+        block[start + i] = (block[start + i] + block[start + i - samplesPerPixel]) & 0xff;
+      }
+    }
+    return;
+  }
+
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  for (let y = 0; y < rows; y++) {
+    const start = y * rowLength;
+    for (let i = samplesPerPixel; i < rowLength; i++) {
+      const pos = (start + i) * 2;
+      const prev = (start + i - samplesPerPixel) * 2;
+      if (pos + 2 > block.length) return;
+      view.setUint16(pos, (view.getUint16(pos, littleEndian) + view.getUint16(prev, littleEndian)) & 0xffff, littleEndian);
+    }
+  }
+}
+
+/**
+ * Декодирует файл TIFF
+ * @param buffer Содержимое файла
+ * @returns Изображение в RGBA; 16-битные отсчёты масштабируются до 8 бит
+ */
+export function decodeTIFF(buffer: ArrayBuffer): DecodedImage {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  if (bytes.length < 8) {
+    throw new Error('Файл не является изображением TIFF');
+  }
+
+  const byteOrder = String.fromCharCode(bytes[0], bytes[1]);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Файл не является изображением TIFF');
+  }
+  const littleEndian = byteOrder === 'II';
+
+  if (view.getUint16(2, littleEndian) !== 42) {
+    throw new Error('Неподдерживаемый вариант TIFF (BigTIFF или повреждённый заголовок)');
+  }
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > bytes.length) {
+    throw new Error('Файл TIFF обрезан');
+  }
+
+  const tags = new Map<number, number[]>();
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  if (ifdOffset + 2 + entryCount * 12 > bytes.length) {
+    throw new Error('Файл TIFF обрезан');
+  }
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    tags.set(view.getUint16(entry, littleEndian), readTagValues(view, entry, littleEndian));
+  }
+
+  const tag = (id: number, fallback?: number): number => {
+    const value = tags.get(id)?.[0] ?? fallback;
+    if (value === undefined) {
+      throw new Error(`В файле TIFF отсутствует обязательный тег ${id}`);
+    }
+    return value;
+  };
+
+  const width = tag(TAG.imageWidth);
+  const height = tag(TAG.imageLength);
+  const samplesPerPixel = tag(TAG.samplesPerPixel, 1);
+  const bitsPerSample = tag(TAG.bitsPerSample, 1);
+  const compression = tag(TAG.compression, 1);
+  const photometric = tag(TAG.photometric);
+  const predictor = tag(TAG.predictor, 1);
+  const extraSamples = tags.get(TAG.extraSamples) ?? [];
+
+  if (width === 0 || height === 0) {
+    throw new Error('Размер изображения TIFF не может быть 0');
+  }
+  if (bitsPerSample !== 8 && bitsPerSample !== 16) {
+    throw new Error(`Поддерживаются только TIFF с 8 или 16 битами на отсчёт (в файле ${bitsPerSample})`);
+  }
+  if ((tags.get(TAG.bitsPerSample) ?? []).some(bits => bits !== bitsPerSample)) {
+    throw new Error('Поддерживаются только TIFF с одинаковой глубиной всех каналов');
+  }
+  if (tag(TAG.sampleFormat, 1) !== 1) {
+    throw new Error('Поддерживаются только TIFF с беззнаковыми целыми отсчётами');
+  }
+  if (tag(TAG.planarConfiguration, 1) !== 1) {
+    throw new Error('Поддерживаются только TIFF с чередующимися каналами');
+  }
+  if (![PHOTOMETRIC_WHITE_IS_ZERO, PHOTOMETRIC_BLACK_IS_ZERO, PHOTOMETRIC_RGB].includes(photometric)) {
+    throw new Error(`Неподдерживаемая цветовая модель TIFF: ${photometric}`);
+  }
+
+  const isRGB = photometric === PHOTOMETRIC_RGB;
+  const colorSamples = isRGB ? 3 : 1;
+  if (samplesPerPixel < colorSamples) {
+    throw new Error('Некорректное число каналов TIFF');
+  }
+
+  const hasAlpha = samplesPerPixel > colorSamples && (
+    extraSamples[0] === EXTRA_SAMPLE_ASSOCIATED_ALPHA || extraSamples[0] === EXTRA_SAMPLE_UNASSOCIATED_ALPHA
+  );
+  const premultiplied = extraSamples[0] === EXTRA_SAMPLE_ASSOCIATED_ALPHA;
+
+  const bytesPerSample = bitsPerSample / 8;
+  const bytesPerPixel = samplesPerPixel * bytesPerSample;
+
+  // Полосы — частный случай тайлов шириной во всё изображение
+  const isTiled = tags.has(TAG.tileOffsets);
+  const blockWidth = isTiled ? tag(TAG.tileWidth) : width;
+  const blockHeight = isTiled ? tag(TAG.tileLength) : Math.min(tag(TAG.rowsPerStrip, height), height);
+  const offsets = tags.get(isTiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const byteCounts = tags.get(isTiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+
+  if (!offsets || !byteCounts || offsets.length !== byteCounts.length || blockWidth === 0 || blockHeight === 0) {
+    throw new Error('Некорректное расположение данных в файле TIFF');
+  }
+
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const blocksDown = Math.ceil(height / blockHeight);
+  if (offsets.length < blocksAcross * blocksDown) {
+    throw new Error('Файл TIFF содержит не все полосы изображения');
+  }
+
+  // Отсчёты всего изображения в порядке файла
+  const raster = new Uint8Array(width * height * bytesPerPixel);
+  const blockRowLength = blockWidth * bytesPerPixel;
+
+  for (let by = 0; by < blocksDown; by++) {
+    for (let bx = 0; bx < blocksAcross; bx++) {
+      const index = by * blocksAcross + bx;
+      const start = offsets[index];
+      const end = start + byteCounts[index];
+      if (end > bytes.length) {
+        throw new Error('Файл TIFF обрезан');
+      }
+
+      // Последняя полоса может быть короче остальных, тайлы всегда полного размера
+      const rows = isTiled ? blockHeight : Math.min(blockHeight, height - by * blockHeight);
+      const block = decompress(bytes.subarray(start, end), compression, blockRowLength * rows);
+
+      if (predictor === PREDICTOR_HORIZONTAL) {
+        undoPredictor(block, blockWidth, rows, samplesPerPixel, bytesPerSample, littleEndian);
+      }
+
+      const copyWidth = Math.min(blockWidth, width - bx * blockWidth) * bytesPerPixel;
+      for (let y = 0; y < rows && by * blockHeight + y < height; y++) {
+        const src = y * blockRowLength;
+        const dst = ((by * blockHeight + y) * width + bx * blockWidth) * bytesPerPixel;
+        raster.set(block.subarray(src, src + copyWidth), dst);
+      }
+    }
+  }
+
+  const rasterView = new DataView(raster.buffer);
+  const sample = bytesPerSample === 1
+    ? (index: number) => raster[index]
+    : (index: number) => Math.round(rasterView.getUint16(index * 2, littleEndian) / 257);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const base = i * samplesPerPixel;
+    const pos = i * 4;
+    const alpha = hasAlpha ? sample(base + colorSamples) : 255;
+
+    let r: number, g: number, b: number;
+    if (isRGB) {
+      r = sample(base);
+      g = sample(base + 1);
+      b = sample(base + 2);
+    } else {
+      const value = sample(base);
+      r = g = b = photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - value : value;
+    }
+
+    // Связанная альфа: цвет хранится умноженным на прозрачность
+    if (premultiplied && hasAlpha && alpha > 0 && alpha < 255) {
+      r = (r * 255) / alpha;
+      g = (g * 255) / alpha;
+      b = (b * 255) / alpha;
+    }
+
+    data[pos] = r;
+    data[pos + 1] = g;
+    data[pos + 2] = b;
+    data[pos + 3] = alpha;
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Кодирует изображение в формат TIFF (порядок байтов Intel, полосы)
+ * @param image Изображение в RGBA
+ * @param options Сжатие, цветовая модель и глубина
+ * @returns Байты файла
+ */
+export function encodeTIFF(image: DecodedImage | ImageData, options: TIFFEncodeOptions = {}): Uint8Array {
+  const { width, height, data } = image;
+  const compression = options.compression ?? 'none';
+  const colorMode = options.colorMode ?? 'rgba';
+  const bitsPerSample = options.bitsPerSample ?? 8;
+  const samplesPerPixel = colorMode === 'gray' ? 1 : colorMode === 'rgb' ? 3 : 4;
+  const bytesPerSample = bitsPerSample / 8;
+  const rowLength = width * samplesPerPixel * bytesPerSample;
+  const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_SIZE / rowLength)));
+  const stripCount = Math.ceil(height / rowsPerStrip);
+
+  // Отсчёты изображения в порядке файла
+  const raster = new Uint8Array(rowLength * height);
+  const rasterView = new DataView(raster.buffer);
+  const writeSample = bytesPerSample === 1
+    ? (index: number, value: number) => { raster[index] = value; }
+    : (index: number, value: number) => rasterView.setUint16(index * 2, value * 257, true);
+
+  for (let i = 0; i < width * height; i++) {
+    const pos = i * 4;
+    const base = i * samplesPerPixel;
+    if (colorMode === 'gray') {
+      writeSample(base, Math.round(0.2126 * data[pos] + 0.7152 * data[pos + 1] + 0.0722 * data[pos + 2]));
+    } else {
+      writeSample(base, data[pos]);
+      writeSample(base + 1, data[pos + 1]);
+      writeSample(base + 2, data[pos + 2]);
+      if (colorMode === 'rgba') writeSample(base + 3, data[pos + 3]);
+    }
+  }
+
+  const strips: Uint8Array[] = [];
+  for (let s = 0; s < stripCount; s++) {
+    const strip = raster.subarray(s * rowsPerStrip * rowLength, Math.min(height, (s + 1) * rowsPerStrip) * rowLength);
+    if (compression === 'lzw') {
+      strips.push(lzwEncode(strip, TIFF_LZW));
+    } else if (compression === 'packbits') {
+      // PackBits в TIFF сжимает каждую строку отдельно
+      const rows: Uint8Array[] = [];
+      for (let offset = 0; offset < strip.length; offset += rowLength) {
+        rows.push(packBitsEncode(strip.subarray(offset, offset + rowLength)));
+      }
+      const packed = new Uint8Array(rows.reduce((total, row) => total + row.length, 0));
+      let offset = 0;
+      for (const row of rows) {
+        packed.set(row, offset);
+        offset += row.length;
+      }
+      strips.push(packed);
+    } else {
+      strips.push(strip);
+    }
+  }
+
+  // Теги в порядке возрастания номеров: [тег, тип, значения]
+  const entries: [number, number, number[]][] = [
+    [TAG.imageWidth, TYPE_LONG, [width]],
+    [TAG.imageLength, TYPE_LONG, [height]],
+    [TAG.bitsPerSample, TYPE_SHORT, new Array(samplesPerPixel).fill(bitsPerSample)],
+    [TAG.compression, TYPE_SHORT, [COMPRESSION_CODES[compression]]],
+    [TAG.photometric, TYPE_SHORT, [colorMode === 'gray' ? PHOTOMETRIC_BLACK_IS_ZERO : PHOTOMETRIC_RGB]],
+    [TAG.stripOffsets, TYPE_LONG, new Array(stripCount).fill(0)],
+    [TAG.samplesPerPixel, TYPE_SHORT, [samplesPerPixel]],
+    [TAG.rowsPerStrip, TYPE_LONG, [rowsPerStrip]],
+    [TAG.stripByteCounts, TYPE_LONG, strips.map(strip => strip.length)],
+    [TAG.xResolution, TYPE_RATIONAL, [72]],
+    [TAG.yResolution, TYPE_RATIONAL, [72]],
+    [TAG.planarConfiguration, TYPE_SHORT, [1]],
+    [TAG.resolutionUnit, TYPE_SHORT, [2]]
+  ];
+  if (colorMode === 'rgba') {
+    entries.push([TAG.extraSamples, TYPE_SHORT, [EXTRA_SAMPLE_UNASSOCIATED_ALPHA]]);
+  }
+
+  // Раскладка: заголовок, IFD, значения тегов, не поместившиеся в запись, затем полосы
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let valuesSize = 0;
+  const valueOffsets = entries.map(([, type, values]) => {
+    const size = TYPE_SIZES[type] * values.length;
+    if (size <= 4) return -1;
+    const offset = ifdOffset + ifdSize + valuesSize;
+    valuesSize += size + (size % 2);
+    return offset;
+  });
+
+  const stripsStart = ifdOffset + ifdSize + valuesSize;
+  const stripOffsets = entries.find(([id]) => id === TAG.stripOffsets)![2];
+  let totalSize = stripsStart;
+  strips.forEach((strip, index) => {
+    stripOffsets[index] = totalSize;
+    totalSize += strip.length;
+  });
+
+  const result = new Uint8Array(totalSize);
+  const view = new DataView(result.buffer);
+
+  result[0] = 0x49;
+  result[1] = 0x49;
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  view.setUint16(ifdOffset, entries.length, true);
+
+  entries.forEach(([id, type, values], index) => {
+    const entry = ifdOffset + 2 + index * 12;
+    view.setUint16(entry, id, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+
+    const target = valueOffsets[index] === -1 ? entry + 8 : valueOffsets[index];
+    if (valueOffsets[index] !== -1) {
+      view.setUint32(entry + 8, target, true);
+    }
+
+    values.forEach((value, i) => {
+      if (type === TYPE_SHORT) {
+        view.setUint16(target + i * 2, value, true);
+      } else if (type === TYPE_LONG) {
+        view.setUint32(target + i * 4, value, true);
+      } else if (type === TYPE_RATIONAL) {
+        view.setUint32(target + i * 8, value, true);
+        view.setUint32(target + i * 8 + 4, 1, true);
+      } else if (type === TYPE_BYTE) {
+        view.setUint8(target + i, value);
+      }
+    });
+  });
+
+  // Следующего IFD нет
+  view.setUint32(ifdOffset + ifdSize - 4, 0, true);
+
+  let offset = stripsStart;
+  for (const strip of strips) {
+    result.set(strip, offset);
+    offset += strip.length;
+  }
+
+  return result;
+}
@@ -6,3 +6,52 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export const isGB7File = (file: File) => file.name.toLowerCase().endsWith('.gb7')
+
+// Создаёт PNG data URL из ImageData (для превью слоёв)
+export function imageDataToDataUrl(imageData: ImageData): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = imageData.width
+  canvas.height = imageData.height
+  const ctx = canvas.getContext('2d')
+
+  if (!ctx) {
+    throw new Error('Не удалось создать контекст canvas')
+  }
+
+  ctx.putImageData(imageData, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+// Предлагает пользователю сохранить Blob под указанным именем
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  URL.revokeObjectURL(url)
+}
+
+// Имя файла без символов, недопустимых в файловых системах; пустое имя заменяется запасным
+export function sanitizeFilename(name: string, fallback: string): string {
+  const cleaned = Array.from(name, char => (char < ' ' || '\\/:*?"<>|'.includes(char) ? '_' : char))
+    .join('')
+    .trim()
+    .replace(/^\.+|\.+$/g, '')
+  return cleaned || fallback
+}
+
+// Поля ввода сохраняют обычное поведение клавиш: копирование, вставку и перемещение курсора
+export const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Размер файла в байтах, КБ или МБ для подписей в интерфейсе
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} Б`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`
+  return `${(bytes / (1024 * 1024)).toFixed(2)} МБ`
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip, crc32 } from './zip';
+
+describe('ZIP', () => {
+  it('должен вычислять CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('должен читать созданный архив', () => {
+    const entries = [
+      { name: 'manifest.json', data: new TextEncoder().encode('{"a":1}') },
+      { name: 'слои/0.rgba', data: new Uint8Array([1, 2, 3, 4]) },
+      { name: 'empty.bin', data: new Uint8Array(0) }
+    ];
+
+    const archive = readZip(createZip(entries));
+
+    expect(archive.map(entry => entry.name)).toEqual(entries.map(entry => entry.name));
+    expect(archive[1].data).toEqual(entries[1].data);
+    expect(archive[2].data.length).toBe(0);
+  });
+
+  it('должен обнаруживать повреждение данных', () => {
+    const bytes = createZip([{ name: 'a.bin', data: new Uint8Array([1, 2, 3]) }]);
+    bytes[30 + 'a.bin'.length] ^= 0xff;
+
+    expect(() => readZip(bytes)).toThrow(/контрольная сумма/);
+  });
+
+  it('должен отклонять файлы, не являющиеся архивом', () => {
+    expect(() => readZip(new Uint8Array(64))).toThrow();
+  });
+});
@@ -0,0 +1,196 @@
+// Минимальная реализация ZIP-архива без сжатия (метод «stored»)
+// Используется для файлов проекта и пакетной выгрузки результатов
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * Вычисляет контрольную сумму CRC-32
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Дата и время в формате MS-DOS
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Собирает ZIP-архив из набора файлов
+ * @param entries Файлы архива
+ * @param modified Дата изменения, записываемая для всех файлов
+ * @returns Байты архива
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dosTime = toDosDateTime(modified);
+  const names = entries.map(entry => encoder.encode(entry.name));
+  const checksums = entries.map(entry => crc32(entry.data));
+
+  const localSize = entries.reduce(
+    (total, entry, index) => total + LOCAL_HEADER_SIZE + names[index].length + entry.data.length,
+    0
+  );
+  const centralSize = names.reduce((total, name) => total + CENTRAL_HEADER_SIZE + name.length, 0);
+  const buffer = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(buffer.buffer);
+
+  const localOffsets: number[] = [];
+  let offset = 0;
+
+  entries.forEach((entry, index) => {
+    const name = names[index];
+    localOffsets.push(offset);
+
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, METHOD_STORED, true);
+    view.setUint16(offset + 10, dosTime.time, true);
+    view.setUint16(offset + 12, dosTime.date, true);
+    view.setUint32(offset + 14, checksums[index], true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    buffer.set(name, offset + LOCAL_HEADER_SIZE);
+    buffer.set(entry.data, offset + LOCAL_HEADER_SIZE + name.length);
+
+    offset += LOCAL_HEADER_SIZE + name.length + entry.data.length;
+  });
+
+  const centralOffset = offset;
+
+  entries.forEach((entry, index) => {
+    const name = names[index];
+
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, METHOD_STORED, true);
+    view.setUint16(offset + 12, dosTime.time, true);
+    view.setUint16(offset + 14, dosTime.date, true);
+    view.setUint32(offset + 16, checksums[index], true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, name.length, true);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    buffer.set(name, offset + CENTRAL_HEADER_SIZE);
+
+    offset += CENTRAL_HEADER_SIZE + name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return buffer;
+}
+
+/**
+ * Читает ZIP-архив без сжатия
+ * @param bytes Байты архива
+ * @returns Файлы архива в порядке центрального каталога
+ */
+export function readZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // Ищем конец центрального каталога с конца файла (после него может идти комментарий)
+  let endOffset = -1;
+  for (let i = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+
+  if (endOffset === -1) {
+    throw new Error('Файл не является ZIP-архивом');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Повреждён центральный каталог ZIP-архива');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const checksum = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength));
+
+    if (method !== METHOD_STORED) {
+      throw new Error(`Сжатые файлы в ZIP-архиве не поддерживаются: ${name}`);
+    }
+
+    if (localOffset + LOCAL_HEADER_SIZE > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Повреждён заголовок файла ${name} в ZIP-архиве`);
+    }
+
+    const dataStart = localOffset + LOCAL_HEADER_SIZE
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+
+    if (dataStart + size > bytes.length) {
+      throw new Error(`Файл ${name} в ZIP-архиве обрезан`);
+    }
+
+    const data = bytes.subarray(dataStart, dataStart + size);
+    if (crc32(data) !== checksum) {
+      throw new Error(`Неверная контрольная сумма файла ${name} в ZIP-архиве`);
+    }
+
+    entries.push({ name, data });
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
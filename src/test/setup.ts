@@ -0,0 +1,24 @@
+// Общая настройка тестов: в Node.js нет ImageData, поэтому подставляем
+// минимальную реализацию с теми же конструкторами
+
+if (typeof ImageData === 'undefined') {
+  globalThis.ImageData = class ImageData {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+
+    constructor(data: Uint8ClampedArray | number, width?: number, height?: number) {
+      if (typeof data === 'number') {
+        // ImageData(width, height)
+        this.width = data;
+        this.height = width!;
+        this.data = new Uint8ClampedArray(this.width * this.height * 4);
+      } else {
+        // ImageData(data, width, height)
+        this.data = data;
+        this.width = width!;
+        this.height = height!;
+      }
+    }
+  } as typeof ImageData;
+}